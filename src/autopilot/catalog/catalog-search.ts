@@ -0,0 +1,235 @@
+/**
+ * Ranked catalog search: tokenized, stemmed, field-weighted BM25 over the parsed node catalog.
+ *
+ * - Fields: type and paletteLabel count most, then module/category, then defaults and help
+ * - Query terms match independently ("group progress osc" needs no exact phrase); nodes that
+ *   match more of the terms rank first, and the exact phrase earns a bonus
+ * - Typos and partial words match vocabulary terms within a small edit distance or by prefix,
+ *   at a discount
+ * - Each result lists the fields that matched with the terms highlighted as **term**
+ */
+
+import { escapeRegExp } from "../utils.js";
+
+type SearchField = "type" | "paletteLabel" | "module" | "category" | "defaults" | "help";
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+	type: 4,
+	paletteLabel: 4,
+	module: 2,
+	category: 1.5,
+	defaults: 1,
+	help: 1,
+};
+
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+// Weight of a fuzzy (typo or prefix) term match relative to an exact one.
+const FUZZY_WEIGHT = 0.6;
+const PHRASE_BONUS = 1.5;
+const SNIPPET_RADIUS = 80;
+
+type IndexedDoc = {
+	node: any;
+	text: Record<SearchField, string>;
+	// stemmed term -> count, per field
+	terms: Record<SearchField, Map<string, number>>;
+	lengths: Record<SearchField, number>;
+};
+
+export type SearchIndex = {
+	docs: IndexedDoc[];
+	df: Map<string, number>;
+	avgLengths: Record<SearchField, number>;
+};
+
+export type SearchHighlight = { field: SearchField; snippet: string };
+
+/**
+ * Light suffix stripping, enough to match "keypoints"/"keypoint" and "sending"/"sends".
+ */
+export function stem(word: string) {
+	if (word.length <= 3 || /\d/.test(word)) return word;
+	if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+	if (word.endsWith("sses")) return word.slice(0, -2);
+	if (word.endsWith("ing") && word.length > 5) return word.slice(0, -3);
+	if (word.endsWith("ed") && word.length > 4) return word.slice(0, -2);
+	if (word.endsWith("s") && !word.endsWith("ss") && !word.endsWith("us"))
+		return word.slice(0, -1);
+	return word;
+}
+
+/**
+ * Words of a text, split on punctuation and camelCase ("tl-keypoint-drop", "groupProgress").
+ */
+export function tokenize(text: string) {
+	return String(text || "")
+		.replace(/([a-z])([A-Z])/g, "$1 $2")
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+}
+
+function fieldText(node: any): Record<SearchField, string> {
+	let defaults = "";
+	try {
+		if (node.defaults && typeof node.defaults === "object") {
+			defaults = Object.keys(node.defaults).join(" ");
+		}
+	} catch {
+		// ignore
+	}
+	return {
+		type: String(node.type || ""),
+		paletteLabel: String(node.paletteLabel || ""),
+		module: [node.module, node.modulePackage, node.moduleSet].filter(Boolean).join(" "),
+		category: String(node.category || ""),
+		defaults,
+		help: String(node.help?.text || ""),
+	};
+}
+
+export function buildSearchIndex(nodes: any[]): SearchIndex {
+	const df = new Map<string, number>();
+	const totals = Object.fromEntries(FIELDS.map((f) => [f, 0])) as Record<SearchField, number>;
+	const docs = nodes.map((node) => {
+		const text = fieldText(node);
+		const terms = {} as IndexedDoc["terms"];
+		const lengths = {} as IndexedDoc["lengths"];
+		const seen = new Set<string>();
+		for (const field of FIELDS) {
+			const counts = new Map<string, number>();
+			const tokens = tokenize(text[field]).map(stem);
+			for (const t of tokens) {
+				counts.set(t, (counts.get(t) ?? 0) + 1);
+				seen.add(t);
+			}
+			terms[field] = counts;
+			lengths[field] = tokens.length;
+			totals[field] += tokens.length;
+		}
+		for (const t of seen) df.set(t, (df.get(t) ?? 0) + 1);
+		return { node, text, terms, lengths };
+	});
+	const avgLengths = Object.fromEntries(
+		FIELDS.map((f) => [f, docs.length ? totals[f] / docs.length || 1 : 1]),
+	) as Record<SearchField, number>;
+	return { docs, df, avgLengths };
+}
+
+// Edit distance with adjacent transpositions, giving up once it exceeds `max`.
+function editDistance(a: string, b: string, max: number) {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+	let prev2: number[] = [];
+	let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const cur = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let d = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				d = Math.min(d, prev2[j - 2] + 1);
+			}
+			cur[j] = d;
+			rowMin = Math.min(rowMin, d);
+		}
+		if (rowMin > max) return max + 1;
+		prev2 = prev;
+		prev = cur;
+	}
+	return prev[b.length];
+}
+
+// Vocabulary terms a query term matches, with their weight.
+function expandTerm(term: string, index: SearchIndex) {
+	const out = new Map<string, number>();
+	if (index.df.has(term)) out.set(term, 1);
+	const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+	for (const candidate of index.df.keys()) {
+		if (candidate === term) continue;
+		const prefix = term.length >= 3 && candidate.startsWith(term);
+		if (prefix || (maxEdits && editDistance(term, candidate, maxEdits) <= maxEdits)) {
+			out.set(candidate, FUZZY_WEIGHT);
+		}
+	}
+	return out;
+}
+
+// Wrap words whose stem matched in **...**; long fields are cut to a window around the first hit.
+function highlight(text: string, matched: Set<string>) {
+	const flat = text.replace(/\s+/g, " ").trim();
+	const words = [...new Set(tokenize(flat))].filter((w) => matched.has(stem(w)));
+	if (!words.length) return null;
+	const re = new RegExp(`\\b(${words.map(escapeRegExp).join("|")})\\b`, "gi");
+	const first = flat.search(re);
+	let snippet = flat;
+	if (flat.length > SNIPPET_RADIUS * 2 && first >= 0) {
+		const start = Math.max(0, first - SNIPPET_RADIUS);
+		const end = Math.min(flat.length, first + SNIPPET_RADIUS);
+		snippet = `${start > 0 ? "..." : ""}${flat.slice(start, end)}${end < flat.length ? "..." : ""}`;
+	}
+	return snippet.replace(re, "**$1**");
+}
+
+/**
+ * Score every indexed node against `query`; returns matches best first.
+ */
+export function rankNodes(index: SearchIndex, query: string) {
+	const queryTerms = [...new Set(tokenize(query).map(stem))];
+	if (!queryTerms.length) return [];
+	const phrase = query.trim().toLowerCase();
+	const n = index.docs.length;
+	const expansions = queryTerms.map((t) => expandTerm(t, index));
+
+	const results: Array<{
+		node: any;
+		score: number;
+		matchedTerms: number;
+		highlights: SearchHighlight[];
+	}> = [];
+	for (const doc of index.docs) {
+		let score = 0;
+		let matchedTerms = 0;
+		const hits = new Set<string>();
+		for (const expansion of expansions) {
+			let best = 0;
+			for (const [term, weight] of expansion) {
+				// BM25F: length-normalised, weighted term frequency summed over fields.
+				let tf = 0;
+				for (const field of FIELDS) {
+					const count = doc.terms[field].get(term);
+					if (!count) continue;
+					const norm = 1 - B + (B * doc.lengths[field]) / index.avgLengths[field];
+					tf += (FIELD_WEIGHTS[field] * count) / norm;
+				}
+				if (!tf) continue;
+				hits.add(term);
+				const df = index.df.get(term) ?? 0;
+				const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+				best = Math.max(best, weight * idf * ((tf * (K1 + 1)) / (tf + K1)));
+			}
+			if (best > 0) matchedTerms++;
+			score += best;
+		}
+		if (!matchedTerms) continue;
+		// Nodes matching every term outrank ones that match a single term very well.
+		score *= matchedTerms / queryTerms.length;
+		if (
+			queryTerms.length > 1 &&
+			FIELDS.some((f) => doc.text[f].toLowerCase().includes(phrase))
+		) {
+			score += PHRASE_BONUS;
+		}
+		const highlights = FIELDS.flatMap((field) => {
+			const snippet = highlight(doc.text[field], hits);
+			return snippet ? [{ field, snippet }] : [];
+		});
+		results.push({ node: doc.node, score, matchedTerms, highlights });
+	}
+	return results.sort((a, b) => b.score - a.score);
+}
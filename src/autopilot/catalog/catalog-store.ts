@@ -0,0 +1,168 @@
+/**
+ * Persistent storage for the parsed node catalog, keyed by Node-RED URL and a SHA-256 hash
+ * of the `/nodes` response (and the parser version). A new MCP session starts from the stored
+ * catalog instead of downloading and re-parsing the `/nodes` HTML, and only re-parses when the
+ * hash changes.
+ *
+ * - KV (CATALOG_KV): shared by every session of the Worker
+ * - NodeRedState Durable Object: shared by every session for one Node-RED URL; stored in its
+ *   SQLite, chunked like flow snapshots
+ */
+
+import type { SqlTag } from "../flows/index.js";
+
+export type StoredCatalog = {
+	nodeRedUrl: string;
+	hash: string;
+	fetchedAt: number;
+	// Parsed nodes before custom-module marking (the allowlist is per deployment).
+	nodes: any[];
+	warnings: any[];
+};
+
+export type CatalogStore = {
+	load(nodeRedUrl: string): Promise<StoredCatalog | null>;
+	save(entry: StoredCatalog): Promise<void>;
+};
+
+export type CatalogKv = {
+	get: (key: string, type: "json") => Promise<unknown>;
+	put: (key: string, value: string) => Promise<void>;
+};
+
+// RPC surface of the NodeRedState Durable Object used for catalogs.
+export type CatalogRpc = {
+	loadCatalog(nodeRedUrl: string): Promise<StoredCatalog | null>;
+	saveCatalog(entry: StoredCatalog): Promise<void>;
+};
+
+export const CATALOG_KV_PREFIX = "catalog:";
+
+const CHUNK_SIZE = 500_000;
+
+export async function sha256Hex(text: string) {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+	return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function isStoredCatalog(value: any): value is StoredCatalog {
+	return (
+		!!value &&
+		typeof value.hash === "string" &&
+		Array.isArray(value.nodes) &&
+		Number.isFinite(value.fetchedAt)
+	);
+}
+
+export class KvCatalogStore implements CatalogStore {
+	private _kv: CatalogKv;
+
+	constructor(kv: CatalogKv) {
+		this._kv = kv;
+	}
+
+	async load(nodeRedUrl: string) {
+		const value = await this._kv.get(`${CATALOG_KV_PREFIX}${nodeRedUrl}`, "json");
+		return isStoredCatalog(value) ? { ...value, warnings: value.warnings ?? [] } : null;
+	}
+
+	async save(entry: StoredCatalog) {
+		await this._kv.put(`${CATALOG_KV_PREFIX}${entry.nodeRedUrl}`, JSON.stringify(entry));
+	}
+}
+
+export class SqlCatalogStore implements CatalogStore {
+	private _sql: SqlTag;
+	private _ready = false;
+
+	constructor(sql: SqlTag) {
+		this._sql = sql;
+	}
+
+	private _ensureSchema() {
+		if (this._ready) return;
+		this._sql`CREATE TABLE IF NOT EXISTS node_catalogs (
+			node_red_url TEXT NOT NULL,
+			hash TEXT NOT NULL,
+			fetched_at INTEGER NOT NULL,
+			node_count INTEGER NOT NULL,
+			PRIMARY KEY (node_red_url, hash)
+		)`;
+		this._sql`CREATE TABLE IF NOT EXISTS node_catalog_chunks (
+			node_red_url TEXT NOT NULL,
+			hash TEXT NOT NULL,
+			seq INTEGER NOT NULL,
+			data TEXT NOT NULL,
+			PRIMARY KEY (node_red_url, hash, seq)
+		)`;
+		this._ready = true;
+	}
+
+	async load(nodeRedUrl: string) {
+		this._ensureSchema();
+		const [row] = this._sql`SELECT * FROM node_catalogs WHERE node_red_url = ${nodeRedUrl}
+			ORDER BY fetched_at DESC LIMIT 1`;
+		if (!row) return null;
+		const hash = String(row.hash);
+		const chunks = this._sql<{ data: string }>`SELECT data FROM node_catalog_chunks
+			WHERE node_red_url = ${nodeRedUrl} AND hash = ${hash} ORDER BY seq`;
+		const value = JSON.parse(chunks.map((c) => c.data).join("") || "{}");
+		return {
+			nodeRedUrl,
+			hash,
+			fetchedAt: Number(row.fetched_at),
+			nodes: Array.isArray(value.nodes) ? value.nodes : [],
+			warnings: Array.isArray(value.warnings) ? value.warnings : [],
+		};
+	}
+
+	async save({ nodeRedUrl, hash, fetchedAt, nodes, warnings }: StoredCatalog) {
+		this._ensureSchema();
+		// Only the latest catalog per URL is kept.
+		this._sql`DELETE FROM node_catalog_chunks WHERE node_red_url = ${nodeRedUrl}`;
+		this._sql`DELETE FROM node_catalogs WHERE node_red_url = ${nodeRedUrl}`;
+		const json = JSON.stringify({ nodes, warnings });
+		for (let seq = 0; seq * CHUNK_SIZE < json.length; seq++) {
+			const data = json.slice(seq * CHUNK_SIZE, (seq + 1) * CHUNK_SIZE);
+			this._sql`INSERT INTO node_catalog_chunks (node_red_url, hash, seq, data)
+				VALUES (${nodeRedUrl}, ${hash}, ${seq}, ${data})`;
+		}
+		this._sql`INSERT INTO node_catalogs (node_red_url, hash, fetched_at, node_count)
+			VALUES (${nodeRedUrl}, ${hash}, ${fetchedAt}, ${nodes.length})`;
+	}
+}
+
+/**
+ * Session-side store over the shared NodeRedState Durable Object, which keeps the catalog in a
+ * SqlCatalogStore.
+ */
+export class SharedCatalogStore implements CatalogStore {
+	private _rpc: CatalogRpc;
+
+	constructor(rpc: CatalogRpc) {
+		this._rpc = rpc;
+	}
+
+	load(nodeRedUrl: string) {
+		return this._rpc.loadCatalog(nodeRedUrl);
+	}
+
+	save(entry: StoredCatalog) {
+		return this._rpc.saveCatalog(entry);
+	}
+}
+
+/**
+ * KV when bound, else the shared NodeRedState Durable Object, else none.
+ */
+export function createCatalogStore({
+	kv,
+	shared,
+}: {
+	kv?: CatalogKv | null;
+	shared?: CatalogRpc | null;
+}) {
+	if (kv) return new KvCatalogStore(kv);
+	if (shared) return new SharedCatalogStore(shared);
+	return null;
+}
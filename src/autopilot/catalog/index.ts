@@ -1,2 +1,30 @@
+export {
+	buildSearchIndex,
+	rankNodes,
+	type SearchHighlight,
+	type SearchIndex,
+	stem,
+	tokenize,
+} from "./catalog-search.js";
+export {
+	CATALOG_KV_PREFIX,
+	type CatalogKv,
+	type CatalogRpc,
+	type CatalogStore,
+	createCatalogStore,
+	KvCatalogStore,
+	SharedCatalogStore,
+	SqlCatalogStore,
+	type StoredCatalog,
+	sha256Hex,
+} from "./catalog-store.js";
 export { NodeCatalog, createNodeCatalog } from "./node-catalog.js";
-export { parseNodesHtml } from "./parse-nodes-html.js";
+export { moduleDocMarkdown, nodeDocMarkdown } from "./node-docs.js";
+export {
+	type ConfigIssue,
+	type NodeConfigSchema,
+	nodeConfigSchema,
+	validateNodeConfig,
+} from "./node-schema.js";
+export { type HelpPort, type HelpProperty, type ParsedHelp, parseHelpHtml } from "./parse-help.js";
+export { CATALOG_PARSER_VERSION, parseNodesHtml } from "./parse-nodes-html.js";
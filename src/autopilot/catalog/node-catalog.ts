@@ -1,5 +1,8 @@
 import { callNodeRed } from "../utils.js";
-import { parseNodesHtml } from "./parse-nodes-html.js";
+import { buildSearchIndex, rankNodes, type SearchIndex } from "./catalog-search.js";
+import { type CatalogStore, sha256Hex } from "./catalog-store.js";
+import { nodeConfigSchema } from "./node-schema.js";
+import { CATALOG_PARSER_VERSION, parseNodesHtml } from "./parse-nodes-html.js";
 
 function truthy(v: unknown) {
 	return /^(1|true|yes|on)$/i.test(String(v || ""));
@@ -26,9 +29,13 @@ export class NodeCatalog {
 	private _customModules: Set<string>;
 	private _verbose: boolean;
 	private _cache: any;
+	private _store: CatalogStore | null;
+	private _refreshing: Promise<any> | null = null;
+	private _searchIndex: { nodes: any[]; index: SearchIndex } | null = null;
 
 	constructor(config: any) {
 		this._config = config || {};
+		this._store = this._config.store ?? null;
 
 		// Workers: env vars can be present at runtime; keep reading from globalThis.process if it exists.
 		const env = (globalThis as any)?.process?.env ?? {};
@@ -49,6 +56,7 @@ export class NodeCatalog {
 			nodes: [],
 			warnings: [],
 			nodeRedUrl: null,
+			hash: null,
 		};
 	}
 
@@ -66,27 +74,88 @@ export class NodeCatalog {
 		return { ...node, isCustom: !!isCustom };
 	}
 
-	async refresh() {
-		const html = await callNodeRed("get", "/nodes", null, this._config);
-		// Node-RED returns HTML; callNodeRed returns response body as-is.
-		const parsed = parseNodesHtml(String(html), { verbose: this._verbose });
-		const nodes = parsed.nodes.map((n: any) => this._markCustom(n));
+	private _setCache(parsedNodes: any[], warnings: any[], hash: string | null, ts = now()) {
+		const nodes = parsedNodes.map((n: any) => ({
+			...this._markCustom(n),
+			configSchema: nodeConfigSchema(n),
+		}));
 		const nodesByType: Record<string, any> = Object.create(null);
 		for (const n of nodes) nodesByType[n.type] = n;
 
 		this._cache = {
-			ts: now(),
+			ts,
 			nodesByType,
 			nodes,
-			warnings: parsed.warnings || [],
+			warnings: warnings || [],
 			nodeRedUrl: this._config.nodeRedUrl || null,
+			hash,
 		};
 		return this._cache;
 	}
 
+	// A broken store must never break the catalog; it only costs a re-parse.
+	private async _loadStored() {
+		if (!this._store) return null;
+		try {
+			return await this._store.load(String(this._config.nodeRedUrl || ""));
+		} catch {
+			return null;
+		}
+	}
+
+	async refresh() {
+		const html = String(await callNodeRed("get", "/nodes", null, this._config));
+		const hash = await sha256Hex(`${CATALOG_PARSER_VERSION}\n${html}`);
+
+		// Unchanged `/nodes` content: keep the parsed catalog.
+		if (hash === this._cache.hash) {
+			this._cache = { ...this._cache, ts: now() };
+			return this._cache;
+		}
+		const stored = await this._loadStored();
+		if (stored?.hash === hash) return this._setCache(stored.nodes, stored.warnings, hash);
+
+		// Node-RED returns HTML; callNodeRed returns response body as-is.
+		const parsed = parseNodesHtml(html, { verbose: this._verbose });
+		const cache = this._setCache(parsed.nodes, parsed.warnings, hash);
+		try {
+			await this._store?.save({
+				nodeRedUrl: String(this._config.nodeRedUrl || ""),
+				hash,
+				fetchedAt: cache.ts,
+				nodes: parsed.nodes,
+				warnings: parsed.warnings || [],
+			});
+		} catch {
+			// ignore: the next session re-parses
+		}
+		return cache;
+	}
+
+	// Concurrent callers share one refresh.
+	private _refreshOnce() {
+		this._refreshing ??= this.refresh().finally(() => {
+			this._refreshing = null;
+		});
+		return this._refreshing;
+	}
+
+	/**
+	 * Cached catalog. A new instance starts from the persistent store when there is one; an
+	 * expired catalog is served as-is while it refreshes in the background (TTL 0 always waits).
+	 */
 	async getCatalog({ force = false }: { force?: boolean } = {}) {
-		if (force || this._isExpired() || !this._cache.nodes.length) {
-			await this.refresh();
+		if (force) return this._refreshOnce();
+		if (!this._cache.nodes.length) {
+			const stored = await this._loadStored();
+			if (!stored?.nodes.length) return this._refreshOnce();
+			this._setCache(stored.nodes, stored.warnings, stored.hash, stored.fetchedAt);
+		}
+		if (this._isExpired()) {
+			if (this._ttlMs === 0) return this._refreshOnce();
+			this._refreshOnce().catch(() => {
+				// ignore: keep serving the stale catalog
+			});
 		}
 		return this._cache;
 	}
@@ -112,6 +181,10 @@ export class NodeCatalog {
 		return c.nodesByType[String(type || "")] || null;
 	}
 
+	/**
+	 * Ranked search over type, palette label, module, category, defaults and help text (see
+	 * catalog-search.ts). The index is rebuilt when the catalog changes.
+	 */
 	async search({
 		query,
 		customOnly = false,
@@ -125,69 +198,53 @@ export class NodeCatalog {
 		category?: string;
 		limit?: number;
 	}): Promise<any[]> {
-		const q = String(query || "")
-			.trim()
-			.toLowerCase();
 		const lim = Number.isFinite(limit) ? Math.max(1, Math.min(200, limit)) : 25;
-		if (!q) return [];
+		if (!String(query || "").trim()) return [];
 
 		const c = await this.getCatalog();
-		const nodes = customOnly ? c.nodes.filter((n: any) => n.isCustom) : c.nodes.slice();
+		if (!this._searchIndex || this._searchIndex.nodes !== c.nodes) {
+			this._searchIndex = { nodes: c.nodes, index: buildSearchIndex(c.nodes) };
+		}
+		const { index } = this._searchIndex;
 
 		const moduleFilter = module ? String(module).toLowerCase() : null;
 		const categoryFilter = category ? String(category).toLowerCase() : null;
 
-		function nodeHaystack(n: any) {
-			const parts = [
-				n.type,
-				n.category,
-				n.paletteLabel,
-				n.module,
-				n.modulePackage,
-				n.moduleSet,
-				n.help?.text,
-			];
-			try {
-				if (n.defaults && typeof n.defaults === "object") {
-					parts.push(Object.keys(n.defaults).join(" "));
+		return rankNodes(index, query)
+			.filter(({ node: n }) => {
+				if (customOnly && !n.isCustom) return false;
+				if (
+					moduleFilter &&
+					!String(n.module || "")
+						.toLowerCase()
+						.includes(moduleFilter)
+				) {
+					return false;
 				}
-			} catch {
-				// ignore
-			}
-			return String(parts.filter(Boolean).join("\n")).toLowerCase();
-		}
-
-		const matches: Array<{ node: any; score: number }> = [];
-		for (const n of nodes) {
-			if (moduleFilter) {
-				const m = String(n.module || "").toLowerCase();
-				if (!m.includes(moduleFilter)) continue;
-			}
-			if (categoryFilter) {
-				const cat = String(n.category || "").toLowerCase();
-				if (!cat.includes(categoryFilter)) continue;
-			}
-			const hay = nodeHaystack(n);
-			const idx = hay.indexOf(q);
-			if (idx === -1) continue;
-			// crude scoring: earlier match + shorter hay
-			const score = idx + Math.min(hay.length, 10_000) / 10_000;
-			matches.push({ node: n, score });
-		}
-
-		matches.sort((a, b) => a.score - b.score);
-		return matches.slice(0, lim).map((m) => ({
-			type: m.node.type,
-			category: m.node.category ?? null,
-			paletteLabel: m.node.paletteLabel ?? null,
-			module: m.node.module ?? null,
-			modulePackage: m.node.modulePackage ?? null,
-			isCustom: !!m.node.isCustom,
-			snippet:
-				(m.node.help?.text || "").slice(0, 400) ||
-				(m.node.template?.text || "").slice(0, 400) ||
-				"",
-		}));
+				return (
+					!categoryFilter ||
+					String(n.category || "")
+						.toLowerCase()
+						.includes(categoryFilter)
+				);
+			})
+			.slice(0, lim)
+			.map((m) => ({
+				type: m.node.type,
+				category: m.node.category ?? null,
+				paletteLabel: m.node.paletteLabel ?? null,
+				module: m.node.module ?? null,
+				modulePackage: m.node.modulePackage ?? null,
+				isCustom: !!m.node.isCustom,
+				score: Math.round(m.score * 1000) / 1000,
+				matchedTerms: m.matchedTerms,
+				highlights: m.highlights,
+				snippet:
+					m.highlights.find((h) => h.field === "help")?.snippet ||
+					(m.node.help?.text || "").slice(0, 400) ||
+					(m.node.template?.text || "").slice(0, 400) ||
+					"",
+			}));
 	}
 }
 
@@ -0,0 +1,93 @@
+/**
+ * Markdown documentation for catalog nodes and modules, served as MCP resources so clients
+ * can attach node docs as context.
+ */
+
+import { isPlainObject } from "../utils.js";
+
+// Table cells must stay on one line and not break the table.
+function cell(value: unknown) {
+	const text = typeof value === "string" && value ? value : JSON.stringify(value);
+	return String(text ?? "")
+		.replace(/\s+/g, " ")
+		.replace(/\|/g, "\\|");
+}
+
+function configTable(defaults: unknown) {
+	if (!isPlainObject(defaults) || !Object.keys(defaults).length) return null;
+	const rows = Object.entries(defaults).map(([key, def]) => {
+		const d = isPlainObject(def) ? def : {};
+		const value =
+			"value" in d && !(isPlainObject(d.value) && typeof d.value.kind === "string")
+				? `\`${cell(d.value)}\``
+				: "";
+		const notes = [
+			d.required === true ? "required" : "",
+			typeof d.type === "string" ? `config node: \`${d.type}\`` : "",
+		].filter(Boolean);
+		return `| \`${key}\` | ${value} | ${notes.join(", ")} |`;
+	});
+	return ["| Property | Default | Notes |", "| --- | --- | --- |", ...rows].join("\n");
+}
+
+/**
+ * One node type: metadata, configuration properties and help text.
+ */
+export function nodeDocMarkdown(node: any) {
+	const title =
+		node.paletteLabel && typeof node.paletteLabel === "string" ? node.paletteLabel : node.type;
+	const meta = [
+		`Type: \`${node.type}\``,
+		node.modulePackage ? `Module: \`${node.modulePackage}\`` : null,
+		node.category ? `Category: ${node.category}` : null,
+		node.inputs != null ? `Inputs: ${node.inputs}` : null,
+		node.outputs != null ? `Outputs: ${node.outputs}` : null,
+	].filter(Boolean);
+	const parts = [`# ${title}`, meta.join(" · ")];
+
+	if (
+		Array.isArray(node.outputLabels) &&
+		node.outputLabels.some((l: unknown) => typeof l === "string")
+	) {
+		parts.push(
+			"## Outputs",
+			node.outputLabels
+				.map(
+					(l: unknown, i: number) =>
+						`${i + 1}. ${typeof l === "string" ? l : "(dynamic)"}`,
+				)
+				.join("\n"),
+		);
+	}
+	const table = configTable(node.defaults);
+	if (table) parts.push("## Configuration", table);
+	const help = String(node.help?.markdown || node.help?.text || "").trim();
+	parts.push("## Help", help || "_No help text._");
+	return `${parts.join("\n\n")}\n`;
+}
+
+/**
+ * A module (package): its node types with the first line of each one's help.
+ */
+export function moduleDocMarkdown(modulePackage: string, nodes: any[]) {
+	const lines = nodes.map((n) => {
+		const help = String(n.help?.text ?? "")
+			.replace(/\s+/g, " ")
+			.trim();
+		const summary = help.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? help;
+		return `- \`${n.type}\`${n.paletteLabel ? ` (${n.paletteLabel})` : ""}${summary ? `: ${summary}` : ""}`;
+	});
+	const sets = [...new Set(nodes.map((n) => n.moduleSet).filter(Boolean))];
+	const parts = [
+		`# ${modulePackage}`,
+		[
+			`${nodes.length} node type${nodes.length === 1 ? "" : "s"}`,
+			sets.length ? `Sets: ${sets.join(", ")}` : null,
+		]
+			.filter(Boolean)
+			.join(" · "),
+		"## Nodes",
+		lines.join("\n"),
+	];
+	return `${parts.join("\n\n")}\n`;
+}
@@ -0,0 +1,239 @@
+/**
+ * JSON Schema for a node's configuration, generated from the `defaults` the catalog parsed
+ * out of its editor JS, plus a validator for proposed node objects.
+ *
+ * - `value` becomes `default` (and the JSON type); `required` fields must be non-empty
+ * - `type` on a default marks a config-node reference (`x-node-red-config`)
+ * - `validate` expressions become constraints: RED.validators.number() -> numeric (strings
+ *   allowed, as the editor stores them), regex(/.../) -> pattern, typedInput("prop") or
+ *   typedInput({ typeField: "prop" }) -> checked against the type held in `prop`,
+ *   typedInput({ type: "num" }) -> checked against that type. Custom validate functions can't
+ *   run here (no eval in Workers) and are reported as unchecked.
+ */
+
+import { isPlainObject } from "../utils.js";
+
+export type NodeConfigSchema = {
+	$schema: string;
+	title: string;
+	type: "object";
+	properties: Record<string, any>;
+	required: string[];
+	additionalProperties: true;
+};
+
+export type ConfigIssue = { property: string; message: string };
+
+// Properties every flow node may carry besides its defaults.
+const NODE_PROPERTIES = new Set(["id", "type", "z", "g", "x", "y", "wires", "d", "info", "l"]);
+
+const NUMBER_PATTERN = "^[+-]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][+-]?\\d+)?$";
+const OPTIONAL_NUMBER_PATTERN = `^$|${NUMBER_PATTERN}`;
+const TYPED_INPUT_RE = /^RED\.validators\.typedInput\(\s*(?:["'](\w+)["']|\{([^}]*)\})/;
+const SCALARS = ["string", "number", "boolean"];
+
+function jsonType(value: unknown) {
+	if (Array.isArray(value)) return "array";
+	if (value === null) return "null";
+	if (typeof value === "number") return "number";
+	if (typeof value === "boolean") return "boolean";
+	if (typeof value === "object") return "object";
+	return "string";
+}
+
+// Validator call in an expression's source, e.g. RED.validators.regex(/^\d+$/).
+function parseValidator(source: string): Record<string, unknown> {
+	const src = source.trim();
+	const number = /^RED\.validators\.number\(\s*(true)?\s*\)$/.exec(src);
+	if (number) {
+		return {
+			type: ["number", "string"],
+			pattern: number[1] ? OPTIONAL_NUMBER_PATTERN : NUMBER_PATTERN,
+		};
+	}
+	const regex = /^RED\.validators\.regex\(\s*\/(.+)\/([a-z]*)\s*(?:,\s*(true))?\s*\)$/s.exec(src);
+	if (regex) {
+		return {
+			type: "string",
+			pattern: regex[3] ? `^$|${regex[1]}` : regex[1],
+			...(regex[2] ? { "x-regex-flags": regex[2] } : {}),
+		};
+	}
+	const typed = TYPED_INPUT_RE.exec(src);
+	if (typed) {
+		// The object form names a fixed `type` and/or the sibling `typeField`; as in the editor,
+		// a fixed type wins.
+		const option = (name: string) =>
+			new RegExp(`(?:^|[\\s,])["']?${name}["']?\\s*:\\s*["'](\\w+)["']`).exec(
+				typed[2] ?? "",
+			)?.[1];
+		const type = option("type");
+		if (type) return { "x-typed-input-type": type };
+		const field = typed[1] ?? option("typeField");
+		if (field) return { "x-typed-input-field": field };
+	}
+	return { "x-validate": src, "x-unchecked": true };
+}
+
+/**
+ * Schema for the `defaults` of a catalog node (null when it has none).
+ */
+export function nodeConfigSchema(catalogNode: any): NodeConfigSchema | null {
+	const defaults = catalogNode?.defaults;
+	if (!isPlainObject(defaults)) return null;
+	const properties: Record<string, any> = {};
+	const required: string[] = [];
+
+	for (const [key, def] of Object.entries(defaults)) {
+		if (!isPlainObject(def)) continue;
+		const prop: Record<string, any> = {};
+		const value = def.value;
+		const dynamic = isPlainObject(value) && typeof value.kind === "string";
+		if ("value" in def && !dynamic) {
+			prop.default = value;
+			prop.type = jsonType(value);
+		}
+		if (typeof def.type === "string") {
+			prop.type = "string";
+			prop["x-node-red-config"] = def.type;
+		}
+		if (isPlainObject(def.validate) && typeof def.validate.source === "string") {
+			Object.assign(prop, parseValidator(def.validate.source));
+		}
+		if (def.required === true) {
+			required.push(key);
+			if (prop.type === "string") prop.minLength = 1;
+		}
+		properties[key] = prop;
+	}
+
+	return {
+		$schema: "https://json-schema.org/draft/2020-12/schema",
+		title: String(catalogNode.type ?? ""),
+		type: "object",
+		properties,
+		required,
+		additionalProperties: true,
+	};
+}
+
+function matchesType(value: unknown, type: string | string[]) {
+	const actual = jsonType(value);
+	const types = Array.isArray(type) ? type : [type];
+	return types.includes(actual);
+}
+
+// Value of a typedInput property is valid for the type selected in its sibling property.
+function typedInputIssue(value: unknown, type: unknown) {
+	const text = String(value ?? "");
+	switch (type) {
+		case "num":
+			return new RegExp(NUMBER_PATTERN).test(text) ? null : "is not a number";
+		case "bool":
+			return /^(true|false)$/.test(text) ? null : "must be true or false";
+		case "json":
+			try {
+				JSON.parse(text);
+				return null;
+			} catch {
+				return "is not valid JSON";
+			}
+		case "re":
+			try {
+				new RegExp(text);
+				return null;
+			} catch {
+				return "is not a valid regular expression";
+			}
+		case "msg":
+		case "flow":
+		case "global":
+			return text ? null : "needs a property name";
+		default:
+			return null;
+	}
+}
+
+/**
+ * Check a proposed node object against its type's schema. `flows` (optional) lets config-node
+ * references be resolved.
+ */
+export function validateNodeConfig(
+	node: Record<string, any>,
+	catalogNode: any,
+	{ flows }: { flows?: any[] } = {},
+) {
+	const errors: ConfigIssue[] = [];
+	const warnings: ConfigIssue[] = [];
+	const schema = nodeConfigSchema(catalogNode);
+	if (!schema) {
+		return {
+			ok: true,
+			schema,
+			errors,
+			warnings: [
+				{ property: "", message: "Node type has no parsed defaults; nothing to check" },
+			],
+		};
+	}
+
+	for (const key of schema.required) {
+		const value = node[key];
+		if (value === undefined || value === null || value === "") {
+			errors.push({ property: key, message: "is required" });
+		}
+	}
+
+	for (const [key, prop] of Object.entries(schema.properties)) {
+		const value = node[key];
+		if (value === undefined || (value === "" && !schema.required.includes(key))) continue;
+		if (prop.type && !matchesType(value, prop.type)) {
+			const message = `must be ${[prop.type].flat().join(" or ")}, got ${jsonType(value)}`;
+			// Node-RED coerces scalars, so "1883" for a numeric default is only worth a warning.
+			if (SCALARS.includes(prop.type) && SCALARS.includes(jsonType(value))) {
+				warnings.push({ property: key, message });
+			} else {
+				errors.push({ property: key, message });
+				continue;
+			}
+		}
+		if (typeof value === "string" && prop.pattern) {
+			const re = new RegExp(prop.pattern, prop["x-regex-flags"] ?? "");
+			if (!re.test(value)) {
+				errors.push({ property: key, message: `does not match ${prop.pattern}` });
+			}
+		}
+		const typedInputType =
+			prop["x-typed-input-type"] ??
+			(prop["x-typed-input-field"] ? node[prop["x-typed-input-field"]] : undefined);
+		if (typedInputType) {
+			const issue = typedInputIssue(value, typedInputType);
+			if (issue) errors.push({ property: key, message: `${issue} (${typedInputType})` });
+		}
+		if (prop["x-unchecked"]) {
+			warnings.push({ property: key, message: "custom validate function not checked" });
+		}
+		if (prop["x-node-red-config"] && flows) {
+			const target = flows.find((n) => n?.id === value);
+			if (!target) {
+				errors.push({
+					property: key,
+					message: `references missing ${prop["x-node-red-config"]} config node ${value}`,
+				});
+			} else if (target.type !== prop["x-node-red-config"]) {
+				errors.push({
+					property: key,
+					message: `references a ${target.type} node, expected ${prop["x-node-red-config"]}`,
+				});
+			}
+		}
+	}
+
+	for (const key of Object.keys(node)) {
+		if (!(key in schema.properties) && !NODE_PROPERTIES.has(key)) {
+			warnings.push({ property: key, message: "not in the node's defaults" });
+		}
+	}
+
+	return { ok: errors.length === 0, schema, errors, warnings };
+}
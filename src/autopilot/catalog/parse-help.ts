@@ -0,0 +1,236 @@
+/**
+ * Structured node help, following the Node-RED help conventions
+ * (https://nodered.org/docs/creating-nodes/help-style-guide):
+ *
+ * <h3>Inputs</h3>
+ * <dl class="message-properties">
+ *     <dt>payload <span class="property-type">string | buffer</span></dt>
+ *     <dd>the payload of the message to publish.</dd>
+ *     <dt class="optional">topic <span class="property-type">string</span></dt>
+ *     <dd>the MQTT topic to publish to.</dd>
+ * </dl>
+ * <h3>Outputs</h3>
+ * <ol class="node-ports">
+ *     <li>Standard output <dl class="message-properties">...</dl></li>
+ *     <li>Standard error <dl class="message-properties">...</dl></li>
+ * </ol>
+ * <h3>Details</h3>
+ * <p>...</p>
+ *
+ * Inputs and outputs become per-port property lists; the whole help becomes markdown.
+ * Help that doesn't follow the conventions still gets markdown, with empty port lists.
+ */
+
+import * as cheerio from "cheerio";
+
+export type HelpProperty = {
+	name: string;
+	type: string | null;
+	optional: boolean;
+	description: string;
+};
+
+export type HelpPort = { label: string | null; properties: HelpProperty[] };
+
+export type ParsedHelp = {
+	markdown: string;
+	inputs: HelpPort[];
+	outputs: HelpPort[];
+	details: string | null;
+};
+
+const BLOCK_TAGS = new Set(["p", "div", "section", "blockquote", "table", "tr"]);
+const SKIP_TAGS = new Set(["script", "style", "template"]);
+
+function collapse(s: string) {
+	return String(s || "")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function hasClass(el: any, name: string) {
+	return String(el?.attribs?.class || "")
+		.split(/\s+/)
+		.includes(name);
+}
+
+function elements(nodes: any[], tag?: string) {
+	return (nodes || []).filter((n) => n?.type === "tag" && (!tag || n.name === tag));
+}
+
+// Continuation lines of a list item line up under its first line.
+function indent(text: string, width: number) {
+	return text.replace(/\n(?=.)/g, `\n${" ".repeat(width)}`);
+}
+
+function textOf(nodes: any[]): string {
+	return (nodes || [])
+		.map((n) => {
+			if (n?.type === "text") return n.data;
+			if (n?.type === "tag" && !SKIP_TAGS.has(n.name)) return textOf(n.children);
+			return "";
+		})
+		.join("");
+}
+
+// dt/dd pairs of a message-properties list.
+function dlProperties(dl: any): HelpProperty[] {
+	const out: HelpProperty[] = [];
+	let current: HelpProperty | null = null;
+	for (const el of elements(dl.children)) {
+		if (el.name === "dt") {
+			const typeEl = elements(el.children).find((c) => hasClass(c, "property-type"));
+			current = {
+				name: collapse(textOf(el.children.filter((c: any) => c !== typeEl))),
+				type: typeEl ? collapse(textOf(typeEl.children)) || null : null,
+				optional: hasClass(el, "optional"),
+				description: "",
+			};
+			if (current.name) out.push(current);
+		} else if (el.name === "dd" && current) {
+			current.description = collapse(
+				[current.description, inlineMarkdown(el.children)].join(" "),
+			);
+		}
+	}
+	return out;
+}
+
+function propertyLine(p: HelpProperty) {
+	const meta = [p.type, p.optional ? "optional" : null].filter(Boolean).join(", ");
+	return `- \`${p.name}\`${meta ? ` _(${meta})_` : ""}${p.description ? `: ${p.description}` : ""}`;
+}
+
+// A node-ports list item: its own text is the port label, nested lists its properties.
+function portOf(li: any): HelpPort {
+	const lists = elements(li.children).filter((c) => c.name === "dl" || c.name === "ul");
+	const label = collapse(textOf(li.children.filter((c: any) => !lists.includes(c))));
+	return {
+		label: label || null,
+		properties: lists.filter((c) => c.name === "dl").flatMap(dlProperties),
+	};
+}
+
+function inlineMarkdown(nodes: any[]) {
+	return collapse(toMarkdown(nodes));
+}
+
+function listMarkdown(el: any, ordered: boolean) {
+	return elements(el.children, "li")
+		.map((li, i) => {
+			const marker = ordered ? `${i + 1}. ` : "- ";
+			return `${marker}${indent(toMarkdown(li.children).trim(), marker.length)}`;
+		})
+		.join("\n");
+}
+
+function elementMarkdown(el: any): string {
+	const tag = el.name;
+	if (SKIP_TAGS.has(tag)) return "";
+	const heading = /^h([1-6])$/.exec(tag);
+	if (heading) return `\n\n${"#".repeat(Number(heading[1]))} ${inlineMarkdown(el.children)}\n\n`;
+	if (BLOCK_TAGS.has(tag)) return `\n\n${toMarkdown(el.children).trim()}\n\n`;
+	switch (tag) {
+		case "br":
+			return "\n";
+		case "hr":
+			return "\n\n---\n\n";
+		case "pre":
+			return `\n\n\`\`\`\n${textOf(el.children).replace(/^\n+|\s+$/g, "")}\n\`\`\`\n\n`;
+		case "code": {
+			const code = collapse(textOf(el.children));
+			return code ? `\`${code}\`` : "";
+		}
+		case "strong":
+		case "b": {
+			const inner = inlineMarkdown(el.children);
+			return inner ? `**${inner}**` : "";
+		}
+		case "em":
+		case "i": {
+			const inner = inlineMarkdown(el.children);
+			return inner ? `_${inner}_` : "";
+		}
+		case "a": {
+			const inner = inlineMarkdown(el.children);
+			const href = el.attribs?.href;
+			return href && /^(https?:|mailto:)/.test(href) ? `[${inner || href}](${href})` : inner;
+		}
+		case "ul":
+			return `\n\n${listMarkdown(el, false)}\n\n`;
+		case "ol":
+			if (hasClass(el, "node-ports")) {
+				const ports = elements(el.children, "li").map((li, i) => {
+					const port = portOf(li);
+					const lines = port.properties.map((p) => `   ${propertyLine(p)}`);
+					return [`${i + 1}. ${port.label ?? `Port ${i + 1}`}`, ...lines].join("\n");
+				});
+				return `\n\n${ports.join("\n")}\n\n`;
+			}
+			return `\n\n${listMarkdown(el, true)}\n\n`;
+		case "dl":
+			return `\n\n${dlProperties(el).map(propertyLine).join("\n")}\n\n`;
+		default:
+			return toMarkdown(el.children);
+	}
+}
+
+function toMarkdown(nodes: any[]): string {
+	return (nodes || [])
+		.map((n) => {
+			if (n?.type === "text") return String(n.data).replace(/\s+/g, " ");
+			if (n?.type === "tag") return elementMarkdown(n);
+			return "";
+		})
+		.join("");
+}
+
+function tidy(markdown: string) {
+	return markdown
+		.split("\n")
+		.map((line) => (line.trim() ? line.replace(/\s+$/, "") : ""))
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+// Elements from a heading up to the next heading of the same level.
+function sectionOf(heading: any) {
+	const out: any[] = [];
+	for (let el = heading.next; el; el = el.next) {
+		if (el.type === "tag" && el.name === heading.name) break;
+		out.push(el);
+	}
+	return out;
+}
+
+function sectionPorts(nodes: any[]): HelpPort[] {
+	const ports = elements(nodes, "ol").find((el) => hasClass(el, "node-ports"));
+	if (ports) return elements(ports.children, "li").map(portOf);
+	const properties = elements(nodes, "dl").flatMap(dlProperties);
+	return properties.length ? [{ label: null, properties }] : [];
+}
+
+/**
+ * Parse a node's help HTML into per-port message properties and markdown.
+ */
+export function parseHelpHtml(html: string): ParsedHelp {
+	const empty: ParsedHelp = { markdown: "", inputs: [], outputs: [], details: null };
+	if (!html) return empty;
+	try {
+		const $ = cheerio.load(String(html), { decodeEntities: true } as any);
+		const roots = $("body").contents().toArray();
+		const help: ParsedHelp = { ...empty, markdown: tidy(toMarkdown(roots)) };
+		$("h1, h2, h3, h4").each((_, heading) => {
+			const title = collapse($(heading).text()).toLowerCase();
+			const section = sectionOf(heading);
+			if (title === "inputs" || title === "input") help.inputs = sectionPorts(section);
+			else if (title === "outputs" || title === "output")
+				help.outputs = sectionPorts(section);
+			else if (title === "details") help.details = tidy(toMarkdown(section)) || null;
+		});
+		return help;
+	} catch {
+		return empty;
+	}
+}
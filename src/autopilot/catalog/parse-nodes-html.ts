@@ -11,12 +11,18 @@
  * Help docs and edit templates live in:
  * - <script type="text/html" data-help-name="type">...</script>
  * - <script type="text/html" data-template-name="type">...</script>
+ *
+ * Help is also parsed into markdown and per-port message properties (see parse-help.ts).
  */
 
 import * as acorn from "acorn";
 import * as walk from "acorn-walk";
 import * as cheerio from "cheerio";
 import { evalAst, extractStringLiteral, isRegisterTypeCallee } from "./ast-eval.js";
+import { parseHelpHtml } from "./parse-help.js";
+
+// Bumped when parsed nodes change shape, so catalogs stored by an older parser are re-parsed.
+export const CATALOG_PARSER_VERSION = 2;
 
 function normalizeWhitespace(s: string) {
 	return String(s || "")
@@ -252,6 +258,7 @@ export function parseNodesHtml(htmlString: string, { verbose = false } = {}) {
 				help: {
 					html: helpHtml,
 					text: htmlToText(helpHtml),
+					...parseHelpHtml(helpHtml),
 				},
 			});
 		}
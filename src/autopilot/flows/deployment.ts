@@ -0,0 +1,90 @@
+/**
+ * Node-RED deployment types (`Node-RED-Deployment-Type` header) and which nodes each one
+ * restarts for a given change.
+ *
+ * - full: stop and restart every node
+ * - flows: restart only the flows (tabs/subflows) that contain changes
+ * - nodes: restart only the nodes that changed
+ * - reload: reload the flows from storage and restart everything
+ */
+
+import { diffFlows, type FlowNodeRef, nodeRef } from "./diff-flows.js";
+
+export const DEPLOYMENT_TYPES = ["full", "nodes", "flows", "reload"] as const;
+export type DeploymentType = (typeof DEPLOYMENT_TYPES)[number];
+
+// Least disruptive type that still applies the change.
+export const DEFAULT_DEPLOYMENT_TYPE: DeploymentType = "nodes";
+
+const MAX_LISTED = 200;
+
+// Editor-only containers: they have no runtime instance to restart.
+const NON_RUNTIME_TYPES = new Set(["tab", "subflow", "group", "junction"]);
+
+function referencesAny(node: any, ids: Set<string>) {
+	for (const [key, value] of Object.entries(node ?? {})) {
+		if (key === "id" || key === "z" || key === "wires") continue;
+		if (typeof value === "string" && ids.has(value)) return true;
+	}
+	return false;
+}
+
+/**
+ * Estimate which nodes Node-RED restarts when `after` is deployed over `before`.
+ * Rewired-only nodes are updated in place by Node-RED and are reported separately.
+ */
+export function deploymentImpact(before: any[], after: any[], deploymentType: DeploymentType) {
+	const diff = diffFlows(before, after);
+	const runtime = (Array.isArray(after) ? after : []).filter(
+		(n) => n && !NON_RUNTIME_TYPES.has(n.type),
+	);
+
+	const changed = new Set([...diff.added, ...diff.modified].map((n) => n.id));
+	const changedOrRemoved = new Set([...changed, ...diff.removed.map((n) => n.id)]);
+
+	// Changed config nodes and subflow definitions restart everything that uses them.
+	const touchedSubflows = new Set<string>();
+	for (const n of [...before, ...after]) {
+		if (!n || !changedOrRemoved.has(n.id)) continue;
+		if (n.type === "subflow") touchedSubflows.add(n.id);
+		if (n.z) touchedSubflows.add(n.z);
+	}
+	for (const n of runtime) {
+		const type = String(n.type);
+		if (referencesAny(n, changedOrRemoved)) changed.add(n.id);
+		if (type.startsWith("subflow:") && touchedSubflows.has(type.slice("subflow:".length))) {
+			changed.add(n.id);
+		}
+	}
+
+	let restarted: any[];
+	if (deploymentType === "full" || deploymentType === "reload") {
+		restarted = runtime;
+	} else if (deploymentType === "flows") {
+		const tabs = new Set<string>();
+		for (const n of [...before, ...after]) {
+			if (!n) continue;
+			if (changedOrRemoved.has(n.id) || changed.has(n.id)) {
+				if (n.z) tabs.add(n.z);
+				if (n.type === "tab") tabs.add(n.id);
+			}
+		}
+		restarted = runtime.filter((n) => changed.has(n.id) || (n.z && tabs.has(n.z)));
+	} else {
+		restarted = runtime.filter((n) => changed.has(n.id));
+	}
+
+	const refs: FlowNodeRef[] = restarted.map(nodeRef);
+	const restartedIds = new Set(refs.map((n) => n.id));
+	return {
+		deploymentType,
+		restartedCount: refs.length,
+		restarted: refs.slice(0, MAX_LISTED),
+		restartedTruncated: refs.length > MAX_LISTED,
+		stopped: diff.removed.filter((n) => !NON_RUNTIME_TYPES.has(n.type)),
+		rewiredInPlace: diff.rewired
+			.filter((n) => !restartedIds.has(n.id))
+			.map(({ ports: _ports, ...ref }) => ref),
+		diffSummary: diff.summary,
+	};
+}
@@ -0,0 +1,132 @@
+/**
+ * Structural diff between two Node-RED flow arrays (e.g. live `/flows` vs a proposed deploy).
+ *
+ * Nodes are matched by `id`. `wires` are compared per output port so rewired connections
+ * are reported separately from plain property edits.
+ */
+
+import { isPlainObject } from "../utils.js";
+
+export type FlowNodeRef = {
+	id: string;
+	type: string;
+	name: string | null;
+	z: string | null;
+};
+
+export type PropertyChange = { path: string; before: unknown; after: unknown };
+
+export type PortWireChange = { port: number; added: string[]; removed: string[] };
+
+export type FlowsDiff = {
+	hasChanges: boolean;
+	summary: string;
+	counts: { added: number; removed: number; modified: number; rewired: number };
+	added: FlowNodeRef[];
+	removed: FlowNodeRef[];
+	modified: Array<FlowNodeRef & { changes: PropertyChange[] }>;
+	rewired: Array<FlowNodeRef & { ports: PortWireChange[] }>;
+};
+
+function sameValue(a: unknown, b: unknown) {
+	if (a === b) return true;
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function nodeRef(node: any): FlowNodeRef {
+	return {
+		id: String(node?.id ?? ""),
+		type: String(node?.type ?? ""),
+		name: node?.name || node?.label || null,
+		z: node?.z ?? null,
+	};
+}
+
+function indexById(flows: any[]) {
+	const byId = new Map<string, any>();
+	for (const n of Array.isArray(flows) ? flows : []) {
+		if (n && typeof n === "object" && n.id != null) byId.set(String(n.id), n);
+	}
+	return byId;
+}
+
+function diffProperties(before: unknown, after: unknown, path: string, out: PropertyChange[]) {
+	// Recurse into plain objects so nested edits (e.g. `env`, `rules`) show a precise path.
+	if (isPlainObject(before) && isPlainObject(after)) {
+		const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+		for (const key of keys) {
+			diffProperties(before[key], after[key], path ? `${path}.${key}` : key, out);
+		}
+		return;
+	}
+	if (!sameValue(before, after)) out.push({ path, before, after });
+}
+
+function diffWires(before: unknown, after: unknown): PortWireChange[] {
+	const b = Array.isArray(before) ? before : [];
+	const a = Array.isArray(after) ? after : [];
+	const ports: PortWireChange[] = [];
+	for (let port = 0; port < Math.max(a.length, b.length); port++) {
+		const prev = new Set<string>((Array.isArray(b[port]) ? b[port] : []).map(String));
+		const next = new Set<string>((Array.isArray(a[port]) ? a[port] : []).map(String));
+		const added = [...next].filter((id) => !prev.has(id));
+		const removed = [...prev].filter((id) => !next.has(id));
+		if (added.length || removed.length) ports.push({ port, added, removed });
+	}
+	return ports;
+}
+
+/**
+ * Compute added/removed/modified nodes and per-port wiring changes between two flow arrays.
+ */
+export function diffFlows(before: any[], after: any[]): FlowsDiff {
+	const prev = indexById(before);
+	const next = indexById(after);
+
+	const added: FlowsDiff["added"] = [];
+	const removed: FlowsDiff["removed"] = [];
+	const modified: FlowsDiff["modified"] = [];
+	const rewired: FlowsDiff["rewired"] = [];
+
+	for (const [id, node] of next) {
+		const old = prev.get(id);
+		if (!old) {
+			added.push(nodeRef(node));
+			continue;
+		}
+
+		const { wires: oldWires, ...oldProps } = old;
+		const { wires: newWires, ...newProps } = node;
+
+		const changes: PropertyChange[] = [];
+		diffProperties(oldProps, newProps, "", changes);
+		if (changes.length) modified.push({ ...nodeRef(node), changes });
+
+		const ports = diffWires(oldWires, newWires);
+		if (ports.length) rewired.push({ ...nodeRef(node), ports });
+	}
+
+	for (const [id, node] of prev) {
+		if (!next.has(id)) removed.push(nodeRef(node));
+	}
+
+	const counts = {
+		added: added.length,
+		removed: removed.length,
+		modified: modified.length,
+		rewired: rewired.length,
+	};
+	const hasChanges = Object.values(counts).some((n) => n > 0);
+
+	return {
+		hasChanges,
+		summary: hasChanges
+			? `${counts.added} added, ${counts.removed} removed, ${counts.modified} modified, ${counts.rewired} rewired`
+			: "No changes",
+		counts,
+		added,
+		removed,
+		modified,
+		rewired,
+	};
+}
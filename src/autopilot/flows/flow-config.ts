@@ -0,0 +1,34 @@
+/**
+ * Helpers for the single-flow Admin API shape used by `/flow` and `/flow/:id`:
+ * { id, label, disabled, info, env, nodes: [], configs: [], subflows: [] }
+ */
+
+/**
+ * Expand a single-flow config object into the flat node list Node-RED stores in `/flows`.
+ */
+export function flowConfigToNodes(flow: any, id: string) {
+	const { nodes, configs, subflows, ...tabProps } = flow && typeof flow === "object" ? flow : {};
+	const out: any[] = [];
+
+	if (id !== "global") out.push({ ...tabProps, id, type: "tab" });
+	for (const n of Array.isArray(nodes) ? nodes : []) {
+		out.push(id === "global" ? { ...n } : { ...n, z: id });
+	}
+	for (const n of Array.isArray(configs) ? configs : []) {
+		out.push(id === "global" ? { ...n } : { ...n, z: id });
+	}
+	for (const n of Array.isArray(subflows) ? subflows : []) out.push({ ...n });
+	return out;
+}
+
+/**
+ * Return a copy of `flows` with flow `id` replaced by the given single-flow config,
+ * mirroring what `PUT /flow/:id` (or `POST /flow` for a new id) would deploy.
+ */
+export function replaceFlow(flows: any[], id: string, flow: any) {
+	const kept = (Array.isArray(flows) ? flows : []).filter((n) => {
+		if (id === "global") return n.z || n.type === "tab" || n.type === "subflow";
+		return n.id !== id && n.z !== id;
+	});
+	return [...kept, ...flowConfigToNodes(flow, id)];
+}
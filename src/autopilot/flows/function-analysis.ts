@@ -0,0 +1,293 @@
+/**
+ * Static analysis of `function` node code (`func`, `initialize`, `finalize`) using acorn.
+ *
+ * Reports which `msg` properties are read and written, which flow/global/context keys are
+ * read and set, how many outputs each `node.send(...)` / `return ...` targets compared with
+ * the node's `outputs`, and syntax errors with line numbers.
+ */
+
+import * as acorn from "acorn";
+import * as walk from "acorn-walk";
+import { type FlowNodeRef, nodeRef } from "./diff-flows.js";
+
+const SECTIONS = ["func", "initialize", "finalize"] as const;
+type Section = (typeof SECTIONS)[number];
+
+const CONTEXT_SCOPES = ["flow", "global", "context"] as const;
+type ContextScope = (typeof CONTEXT_SCOPES)[number];
+
+const FUNCTION_TYPES = new Set([
+	"FunctionDeclaration",
+	"FunctionExpression",
+	"ArrowFunctionExpression",
+]);
+
+export type FunctionSend = {
+	section: Section;
+	kind: "node.send" | "return";
+	line: number;
+	// Number of outputs addressed; null when it can't be determined statically.
+	arity: number | null;
+};
+
+export type FunctionIssue = {
+	severity: "error" | "warning";
+	code: "syntax-error" | "too-many-outputs" | "single-message-to-multiple-outputs";
+	section: Section;
+	line: number | null;
+	message: string;
+};
+
+export type FunctionNodeAnalysis = FlowNodeRef & {
+	outputs: number;
+	msg: { reads: string[]; writes: string[]; replaced: boolean };
+	context: Record<ContextScope, { get: string[]; set: string[] }>;
+	sends: FunctionSend[];
+	issues: FunctionIssue[];
+};
+
+// `msg.a.b` -> "msg.a.b"; computed members become `[*]` unless they are literals.
+function memberPath(node: any): string[] | null {
+	if (node.type === "Identifier") return [node.name];
+	if (node.type !== "MemberExpression") return null;
+	const base = memberPath(node.object);
+	if (!base) return null;
+	if (!node.computed) return [...base, node.property.name];
+	const p = node.property;
+	if (p.type === "Literal" && (typeof p.value === "string" || typeof p.value === "number")) {
+		return [...base, String(p.value)];
+	}
+	return [...base, "[*]"];
+}
+
+function literalKeys(arg: any): string[] {
+	if (!arg) return [];
+	if (arg.type === "Literal" && typeof arg.value === "string") return [arg.value];
+	if (arg.type === "TemplateLiteral" && arg.expressions.length === 0) {
+		return [arg.quasis.map((q: any) => q.value.cooked).join("")];
+	}
+	if (arg.type === "ArrayExpression") return arg.elements.flatMap(literalKeys);
+	return ["(dynamic)"];
+}
+
+// How many outputs a sent/returned value addresses.
+function sendArity(arg: any): number | null {
+	if (!arg) return 0;
+	if (arg.type === "Literal" && arg.value === null) return 0;
+	if (arg.type === "Identifier" && arg.name === "undefined") return 0;
+	if (arg.type === "ArrayExpression") return arg.elements.length;
+	if (arg.type === "ObjectExpression") return 1;
+	if (arg.type === "Identifier" && arg.name === "msg") return 1;
+	return null;
+}
+
+// `flow.get`, `global.set`, `context.get`, `context.flow.get`, `context.global.set`
+function contextCall(callee: any): { scope: ContextScope; op: "get" | "set" } | null {
+	const path = memberPath(callee);
+	if (!path || path.length < 2) return null;
+	const op = path[path.length - 1];
+	if (op !== "get" && op !== "set") return null;
+	const target = path.slice(0, -1).join(".");
+	if (target === "flow" || target === "context.flow") return { scope: "flow", op };
+	if (target === "global" || target === "context.global") return { scope: "global", op };
+	if (target === "context") return { scope: "context", op };
+	return null;
+}
+
+function analyzeSection(code: string, section: Section, out: FunctionNodeAnalysis) {
+	let ast: any;
+	try {
+		// Node-RED runs the code as the body of an async function.
+		ast = acorn.parse(code, {
+			ecmaVersion: "latest",
+			sourceType: "script",
+			allowReturnOutsideFunction: true,
+			allowAwaitOutsideFunction: true,
+			locations: true,
+		});
+	} catch (error: any) {
+		out.issues.push({
+			severity: "error",
+			code: "syntax-error",
+			section,
+			line: error?.loc?.line ?? null,
+			message: String(error?.message ?? error),
+		});
+		return;
+	}
+
+	const reads = new Set(out.msg.reads);
+	const writes = new Set(out.msg.writes);
+	const addContext = (scope: ContextScope, op: "get" | "set", keys: string[]) => {
+		const list = out.context[scope][op];
+		for (const key of keys) if (!list.includes(key)) list.push(key);
+	};
+
+	walk.ancestor(ast, {
+		MemberExpression(node: any, _state: unknown, ancestors: any[]) {
+			const parent = ancestors[ancestors.length - 2];
+			// Only look at the outermost member expression of a chain.
+			if (parent?.type === "MemberExpression" && parent.object === node) return;
+			const path = memberPath(node);
+			if (!path || path[0] !== "msg" || path.length < 2) return;
+			const isWrite =
+				(parent?.type === "AssignmentExpression" && parent.left === node) ||
+				parent?.type === "UpdateExpression" ||
+				(parent?.type === "UnaryExpression" && parent.operator === "delete");
+			if (isWrite) {
+				writes.add(path.join("."));
+				// `msg.count += 1` reads the old value too.
+				if (parent.type !== "AssignmentExpression" || parent.operator !== "=") {
+					reads.add(path.join("."));
+				}
+				return;
+			}
+			// `msg.payload.toString()` reads msg.payload; `msg.hasOwnProperty()` reads nothing.
+			const isMethod = parent?.type === "CallExpression" && parent.callee === node;
+			if (!isMethod) reads.add(path.join("."));
+			else if (path.length > 2) reads.add(path.slice(0, -1).join("."));
+		},
+		AssignmentExpression(node: any) {
+			if (node.left.type === "Identifier" && node.left.name === "msg") {
+				out.msg.replaced = true;
+			}
+		},
+		VariableDeclarator(node: any) {
+			// const { payload, topic } = msg
+			if (node.id.type !== "ObjectPattern" || node.init?.type !== "Identifier") return;
+			if (node.init.name !== "msg") return;
+			for (const prop of node.id.properties) {
+				if (prop.type === "Property" && !prop.computed && prop.key.type === "Identifier") {
+					reads.add(`msg.${prop.key.name}`);
+				}
+			}
+		},
+		CallExpression(node: any) {
+			const ctx = contextCall(node.callee);
+			if (ctx) {
+				addContext(ctx.scope, ctx.op, literalKeys(node.arguments[0]));
+				return;
+			}
+			const path = memberPath(node.callee);
+			if (path?.join(".") === "node.send") {
+				out.sends.push({
+					section,
+					kind: "node.send",
+					line: node.loc.start.line,
+					arity: sendArity(node.arguments[0]),
+				});
+			}
+		},
+		ReturnStatement(node: any, _state: unknown, ancestors: any[]) {
+			// Returns inside callbacks don't send anything.
+			if (section !== "func") return;
+			if (ancestors.some((a) => FUNCTION_TYPES.has(a.type))) return;
+			out.sends.push({
+				section,
+				kind: "return",
+				line: node.loc.start.line,
+				arity: sendArity(node.argument),
+			});
+		},
+	} as any);
+
+	out.msg.reads = [...reads].sort();
+	out.msg.writes = [...writes].sort();
+}
+
+export function analyzeFunctionNode(node: any): FunctionNodeAnalysis {
+	const parsed = Number.parseInt(String(node?.outputs), 10);
+	const outputs = Number.isNaN(parsed) ? 1 : parsed;
+	const out: FunctionNodeAnalysis = {
+		...nodeRef(node),
+		outputs,
+		msg: { reads: [], writes: [], replaced: false },
+		context: {
+			flow: { get: [], set: [] },
+			global: { get: [], set: [] },
+			context: { get: [], set: [] },
+		},
+		sends: [],
+		issues: [],
+	};
+
+	for (const section of SECTIONS) {
+		const code = node?.[section];
+		if (typeof code === "string" && code.trim()) analyzeSection(code, section, out);
+	}
+
+	for (const send of out.sends) {
+		if (send.arity !== null && send.arity > outputs) {
+			out.issues.push({
+				severity: "error",
+				code: "too-many-outputs",
+				section: send.section,
+				line: send.line,
+				message: `${send.kind} addresses ${send.arity} outputs but the node has ${outputs}`,
+			});
+		}
+	}
+	// A bare message goes to output 1, which is the normal way to use it; only flag nodes where
+	// no send can reach any other output.
+	const first = out.sends.find((send) => send.arity === 1);
+	if (outputs > 1 && first && out.sends.every((send) => send.arity !== null && send.arity <= 1)) {
+		out.issues.push({
+			severity: "warning",
+			code: "single-message-to-multiple-outputs",
+			section: first.section,
+			line: first.line,
+			message: `Every send is a single message, so only output 1 of ${outputs} is ever used`,
+		});
+	}
+	return out;
+}
+
+/**
+ * Analyse every `function` node (optionally limited to a tab or node IDs) and cross-reference
+ * flow/global context keys, so hidden data dependencies between nodes become visible.
+ */
+export function analyzeFunctionNodes(
+	flows: any[],
+	{ tab, ids }: { tab?: string; ids?: string[] } = {},
+) {
+	const wanted = ids?.length ? new Set(ids) : null;
+	const nodes = (Array.isArray(flows) ? flows : [])
+		.filter((n) => n?.type === "function")
+		.filter((n) => !tab || n.z === tab)
+		.filter((n) => !wanted || wanted.has(n.id))
+		.map(analyzeFunctionNode);
+
+	const keys = new Map<
+		string,
+		{ scope: ContextScope; z: string | null; key: string; setBy: string[]; readBy: string[] }
+	>();
+	for (const n of nodes) {
+		for (const scope of CONTEXT_SCOPES) {
+			// Node context is private to the node; flow context is shared per tab.
+			const owner = scope === "global" ? null : scope === "flow" ? n.z : n.id;
+			for (const op of ["get", "set"] as const) {
+				for (const key of n.context[scope][op]) {
+					const id = `${scope}:${owner ?? ""}:${key}`;
+					if (!keys.has(id))
+						keys.set(id, { scope, z: owner, key, setBy: [], readBy: [] });
+					const entry = keys.get(id)!;
+					(op === "set" ? entry.setBy : entry.readBy).push(n.id);
+				}
+			}
+		}
+	}
+	const contextKeys = [...keys.values()].filter((k) => k.scope !== "context");
+
+	return {
+		summary: {
+			nodes: nodes.length,
+			withErrors: nodes.filter((n) => n.issues.some((i) => i.severity === "error")).length,
+			withWarnings: nodes.filter((n) => n.issues.some((i) => i.severity === "warning"))
+				.length,
+			// Keys read somewhere but never set by an analysed function node.
+			unsetKeys: contextKeys.filter((k) => !k.setBy.length && k.key !== "(dynamic)").length,
+		},
+		contextKeys,
+		nodes,
+	};
+}
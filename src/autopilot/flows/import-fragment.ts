@@ -0,0 +1,231 @@
+/**
+ * Import a Node-RED export (the JSON the editor clipboard produces) into the live flows.
+ *
+ * Every imported node gets a fresh ID and all internal references are rewritten to match:
+ * `wires`, `z`, `g`, link targets, group membership, subflow instance types, subflow port
+ * wires (`in`, `out`, `status`) and config-node properties. Only those known reference
+ * properties are touched, so a name or payload that happens to equal an ID is kept.
+ * Fragment tabs are merged into a single target tab; existing link nodes that pair with
+ * imported ones are updated to list the new IDs.
+ */
+
+import { isPlainObject } from "../utils.js";
+import { generateNodeId } from "./node-edits.js";
+
+export type ImportFragmentOptions = {
+	// Existing tab to import into; a new tab is created when omitted.
+	tab?: string;
+	tabLabel?: string;
+	// Reuse an existing config node of the same type with identical properties.
+	reuseConfigNodes?: boolean;
+	nodesByType?: Record<string, any>;
+};
+
+// Reference arrays on core nodes (link targets, group members, catch/status/complete scope).
+const ID_ARRAY_PROPS = ["links", "nodes", "scope"];
+
+// Link nodes list each other: a link out's targets are link ins and vice versa.
+const LINK_PAIRS: Record<string, string> = { "link in": "link out", "link out": "link in" };
+
+// Properties that don't make two config nodes different.
+const CONFIG_IDENTITY_IGNORED = new Set(["id", "z", "name", "_users"]);
+
+function isConfigNode(n: any, nodesByType: Record<string, any>) {
+	if (["tab", "subflow", "group", "junction"].includes(n.type)) return false;
+	const category = nodesByType[n.type]?.category;
+	if (category) return category === "config";
+	// Unknown to the catalog: config nodes never have a canvas position or wires.
+	return typeof n.x !== "number" && !Array.isArray(n.wires);
+}
+
+// Config-node reference: a catalog default with a `type`, or, for types the catalog doesn't
+// know, a string naming one of the fragment's config nodes.
+function isConfigRef(
+	n: any,
+	key: string,
+	value: unknown,
+	nodesByType: Record<string, any>,
+	configIds: Set<string>,
+) {
+	if (typeof value !== "string") return false;
+	const defaults = nodesByType[n.type]?.defaults;
+	if (isPlainObject(defaults)) return typeof defaults[key]?.type === "string";
+	return configIds.has(value);
+}
+
+function uniq(ids: string[]) {
+	return [...new Set(ids)];
+}
+
+function configIdentity(n: any) {
+	const props = Object.keys(n)
+		.filter((k) => !CONFIG_IDENTITY_IGNORED.has(k))
+		.sort()
+		.map((k) => [k, n[k]]);
+	return JSON.stringify(props);
+}
+
+/**
+ * Accept an editor export (node array), a `{ rev, flows }` object or a single node.
+ */
+export function parseFragment(json: string) {
+	const value = JSON.parse(json);
+	const list = Array.isArray(value) ? value : Array.isArray(value?.flows) ? value.flows : [value];
+	const nodes = list.filter((n: any) => n && typeof n === "object" && n.id != null && n.type);
+	if (!nodes.length) throw new Error("Fragment contains no nodes");
+	return nodes as any[];
+}
+
+/**
+ * Add `fragment` to `flows` under fresh IDs. Wires and link targets that point outside the
+ * fragment are dropped unless they name an existing node (link targets only).
+ */
+export function importFragment(
+	flows: any[],
+	fragment: any[],
+	{ tab, tabLabel, reuseConfigNodes = false, nodesByType = {} }: ImportFragmentOptions = {},
+) {
+	const existing = new Map<string, any>(flows.map((n) => [String(n.id), n]));
+	if (tab && existing.get(tab)?.type !== "tab") throw new Error(`Unknown tab: ${tab}`);
+
+	const fragmentTabs = fragment.filter((n) => n.type === "tab");
+	const fragmentSubflows = new Set(fragment.filter((n) => n.type === "subflow").map((n) => n.id));
+	const targetTab = tab ?? generateNodeId();
+	const idMap = new Map<string, string>();
+	const reused: Array<{ fragmentId: string; existingId: string; type: string }> = [];
+	const reusedIds = new Set<string>();
+
+	// Fragment tabs collapse into the target tab.
+	for (const t of fragmentTabs) idMap.set(String(t.id), targetTab);
+
+	if (reuseConfigNodes) {
+		const byIdentity = new Map<string, any>();
+		for (const n of flows) {
+			if (isConfigNode(n, nodesByType)) byIdentity.set(`${n.type}:${configIdentity(n)}`, n);
+		}
+		for (const n of fragment) {
+			if (!isConfigNode(n, nodesByType)) continue;
+			const match = byIdentity.get(`${n.type}:${configIdentity(n)}`);
+			if (match) {
+				idMap.set(String(n.id), match.id);
+				reused.push({ fragmentId: String(n.id), existingId: match.id, type: n.type });
+				reusedIds.add(String(n.id));
+			}
+		}
+	}
+
+	const used = new Set(existing.keys());
+	for (const n of fragment) {
+		const id = String(n.id);
+		if (idMap.has(id)) continue;
+		let fresh = generateNodeId();
+		while (used.has(fresh)) fresh = generateNodeId();
+		used.add(fresh);
+		idMap.set(id, fresh);
+	}
+
+	const mapRef = (value: unknown) =>
+		typeof value === "string" && idMap.has(value) ? idMap.get(value)! : value;
+	const keepRef = (value: unknown) =>
+		typeof value === "string" && (idMap.has(value) || existing.has(value));
+	const configIds = new Set(
+		fragment.filter((n) => isConfigNode(n, nodesByType)).map((n) => String(n.id)),
+	);
+	// Subflow port: { x, y, wires: [{ id, port? }] }, wired to nodes inside the subflow.
+	const mapPort = (port: any) =>
+		isPlainObject(port)
+			? {
+					...port,
+					wires: (Array.isArray(port.wires) ? port.wires : [])
+						.filter((w: any) => idMap.has(w?.id))
+						.map((w: any) => ({ ...w, id: idMap.get(w.id) })),
+				}
+			: port;
+
+	const imported: any[] = [];
+	for (const n of fragment) {
+		const id = String(n.id);
+		if (n.type === "tab" || reusedIds.has(id)) continue;
+
+		const out: Record<string, any> = {};
+		for (const [key, value] of Object.entries(n)) {
+			if (key === "id") {
+				out.id = idMap.get(id);
+			} else if (key === "wires") {
+				out.wires = (Array.isArray(value) ? value : []).map((port: any) =>
+					(Array.isArray(port) ? port : []).filter((t) => idMap.has(t)).map(mapRef),
+				);
+			} else if (ID_ARRAY_PROPS.includes(key) && Array.isArray(value)) {
+				out[key] = value.filter(keepRef).map(mapRef);
+			} else if (key === "type" && String(value).startsWith("subflow:")) {
+				out.type = `subflow:${mapRef(String(value).slice("subflow:".length))}`;
+			} else if (n.type === "subflow" && (key === "in" || key === "out")) {
+				out[key] = Array.isArray(value) ? value.map(mapPort) : value;
+			} else if (n.type === "subflow" && key === "status") {
+				out.status = mapPort(value);
+			} else if (key === "g" || isConfigRef(n, key, value, nodesByType, configIds)) {
+				out[key] = mapRef(value);
+			} else {
+				out[key] = value;
+			}
+		}
+
+		if (n.type !== "subflow") {
+			const inSubflow = n.z && fragmentSubflows.has(n.z);
+			if (inSubflow) out.z = idMap.get(n.z);
+			else if (isConfigNode(n, nodesByType) && !n.z) delete out.z;
+			else out.z = targetTab;
+		}
+		if (n.g && !idMap.has(n.g)) delete out.g;
+		imported.push(out);
+	}
+
+	// Existing link nodes paired with imported ones must list them too; stale references to
+	// the fragment's old IDs are replaced.
+	const importedById = new Map(imported.map((n) => [String(n.id), n]));
+	const backLinks = new Map<string, string[]>();
+	const addBackLink = (existingId: string, importedId: string) =>
+		backLinks.set(existingId, [...(backLinks.get(existingId) ?? []), importedId]);
+	for (const n of imported) {
+		for (const t of Array.isArray(n.links) ? n.links : []) {
+			if (existing.get(t)?.type === LINK_PAIRS[n.type]) addBackLink(t, n.id);
+		}
+	}
+	for (const n of flows) {
+		if (!LINK_PAIRS[n.type] || !Array.isArray(n.links)) continue;
+		for (const t of n.links) {
+			const target = existing.has(t) ? null : importedById.get(idMap.get(t) ?? "");
+			if (target?.type !== LINK_PAIRS[n.type]) continue;
+			addBackLink(n.id, target.id);
+			target.links = uniq([...(target.links ?? []), n.id]);
+		}
+	}
+	const updated = flows.map((n) => {
+		const add = backLinks.get(String(n.id));
+		if (!add) return n;
+		const links = (Array.isArray(n.links) ? n.links : []).filter(
+			(t: string) => existing.has(t) || !idMap.has(t),
+		);
+		return { ...n, links: uniq([...links, ...add]) };
+	});
+
+	const newTab = tab
+		? null
+		: {
+				id: targetTab,
+				type: "tab",
+				label: tabLabel || fragmentTabs[0]?.label || "Imported",
+				disabled: false,
+				info: fragmentTabs[0]?.info ?? "",
+			};
+
+	return {
+		flows: [...updated, ...(newTab ? [newTab] : []), ...imported],
+		tab: targetTab,
+		createdTab: !!newTab,
+		idMap: Object.fromEntries(idMap),
+		imported: imported.map((n) => ({ id: n.id, type: n.type, name: n.name || null })),
+		reusedConfigNodes: reused,
+		linkedExistingNodes: [...backLinks.keys()],
+	};
+}
@@ -0,0 +1,46 @@
+export {
+	DEFAULT_DEPLOYMENT_TYPE,
+	DEPLOYMENT_TYPES,
+	type DeploymentType,
+	deploymentImpact,
+} from "./deployment.js";
+export { diffFlows, type FlowNodeRef, nodeRef } from "./diff-flows.js";
+export { flowConfigToNodes, replaceFlow } from "./flow-config.js";
+export {
+	analyzeFunctionNode,
+	analyzeFunctionNodes,
+	type FunctionNodeAnalysis,
+} from "./function-analysis.js";
+export { type ImportFragmentOptions, importFragment, parseFragment } from "./import-fragment.js";
+export { type LintFinding, lintFlows } from "./lint-flows.js";
+export { updateLiveFlows } from "./live-flows.js";
+export {
+	addNode,
+	catalogDefaultValues,
+	connectNodes,
+	type DeleteNodeOptions,
+	deleteNode,
+	disconnectNodes,
+	generateNodeId,
+	mergePatch,
+	updateNodeProperties,
+} from "./node-edits.js";
+export { type GraphFormat, renderFlowGraph } from "./render-graph.js";
+export {
+	createFlowSnapshotStore,
+	createSharedFlowSnapshots,
+	type FlowSnapshot,
+	type FlowSnapshotEntry,
+	type FlowSnapshotMeta,
+	type FlowSnapshotRpc,
+	FlowSnapshotStore,
+	SharedFlowSnapshots,
+	type SqlTag,
+	snapshotLiveFlows,
+} from "./snapshot-store.js";
+export {
+	type TraceOptions,
+	type TracePath,
+	type TraceStep,
+	traceNode,
+} from "./trace-node.js";
@@ -0,0 +1,178 @@
+/**
+ * Catalog-aware checks for Node-RED flow arrays.
+ *
+ * Catches the breakages the Node-RED editor would otherwise only show after a deploy:
+ * unknown node types, dangling wires/tabs/config references and over-wired outputs.
+ */
+
+export type LintSeverity = "error" | "warning";
+
+export type LintFinding = {
+	severity: LintSeverity;
+	code:
+		| "unknown-type"
+		| "missing-subflow"
+		| "missing-wire-target"
+		| "missing-tab"
+		| "missing-group"
+		| "missing-config-node"
+		| "wrong-config-node-type"
+		| "required-config-node"
+		| "too-many-outputs";
+	nodeId: string;
+	type: string;
+	z: string | null;
+	property?: string;
+	message: string;
+};
+
+// Structural types the editor handles itself; they never appear in `/nodes`.
+const CORE_TYPES = new Set(["tab", "subflow", "group", "junction", "global-config", "unknown"]);
+
+function configRefs(defaults: unknown) {
+	const refs: Array<{ property: string; type: string; required: boolean }> = [];
+	if (!defaults || typeof defaults !== "object") return refs;
+	for (const [property, def] of Object.entries(defaults as Record<string, any>)) {
+		if (def && typeof def === "object" && typeof def.type === "string" && def.type) {
+			refs.push({ property, type: def.type, required: def.required === true });
+		}
+	}
+	return refs;
+}
+
+function declaredOutputs(node: any, catalogNode: any) {
+	// Nodes with dynamic outputs (function, switch, ...) persist the count on the node itself.
+	const own = Number(node?.outputs);
+	if (Number.isInteger(own) && own >= 0) return own;
+	const declared = catalogNode?.outputs;
+	return typeof declared === "number" ? declared : null;
+}
+
+/**
+ * Lint a flow array against the node catalog (`nodesByType` from `NodeCatalog.getCatalog()`).
+ * When `tab` is given, only nodes on that tab (and the tab itself) are checked; references
+ * are still resolved against the whole array.
+ */
+export function lintFlows(
+	flows: any[],
+	nodesByType: Record<string, any>,
+	{ tab }: { tab?: string } = {},
+) {
+	const list = (Array.isArray(flows) ? flows : []).filter((n) => n && typeof n === "object");
+	const byId = new Map<string, any>();
+	for (const n of list) if (n.id != null) byId.set(String(n.id), n);
+
+	const findings: LintFinding[] = [];
+	const report = (node: any, f: Omit<LintFinding, "nodeId" | "type" | "z">) => {
+		findings.push({
+			nodeId: String(node.id ?? ""),
+			type: String(node.type ?? ""),
+			z: node.z ?? null,
+			...f,
+		});
+	};
+
+	const checked = tab ? list.filter((n) => n.z === tab || n.id === tab) : list;
+	for (const node of checked) {
+		const type = String(node.type ?? "");
+		const catalogNode = nodesByType[type] ?? null;
+
+		if (type.startsWith("subflow:")) {
+			const subflowId = type.slice("subflow:".length);
+			if (byId.get(subflowId)?.type !== "subflow") {
+				report(node, {
+					severity: "error",
+					code: "missing-subflow",
+					message: `Subflow instance references missing subflow ${subflowId}`,
+				});
+			}
+		} else if (!catalogNode && !CORE_TYPES.has(type)) {
+			report(node, {
+				severity: "error",
+				code: "unknown-type",
+				message: `Node type "${type}" is not installed on this Node-RED instance`,
+			});
+		}
+
+		if (node.z) {
+			const parent = byId.get(String(node.z));
+			if (!parent || (parent.type !== "tab" && parent.type !== "subflow")) {
+				report(node, {
+					severity: "error",
+					code: "missing-tab",
+					message: `z points to missing tab or subflow ${node.z}`,
+				});
+			}
+		}
+
+		if (node.g && byId.get(String(node.g))?.type !== "group") {
+			report(node, {
+				severity: "warning",
+				code: "missing-group",
+				message: `g points to missing group ${node.g}`,
+			});
+		}
+
+		const wires = Array.isArray(node.wires) ? node.wires : [];
+		wires.forEach((port: unknown, index: number) => {
+			for (const target of Array.isArray(port) ? port : []) {
+				if (!byId.has(String(target))) {
+					report(node, {
+						severity: "error",
+						code: "missing-wire-target",
+						property: `wires[${index}]`,
+						message: `Output ${index + 1} is wired to missing node ${target}`,
+					});
+				}
+			}
+		});
+
+		const outputs = declaredOutputs(node, catalogNode);
+		if (outputs != null && wires.length > outputs) {
+			report(node, {
+				severity: "warning",
+				code: "too-many-outputs",
+				property: "wires",
+				message: `wires has ${wires.length} ports but the node declares ${outputs} output(s)`,
+			});
+		}
+
+		for (const ref of configRefs(catalogNode?.defaults)) {
+			const value = node[ref.property];
+			if (value == null || value === "" || value === "_ADD_") {
+				if (ref.required) {
+					report(node, {
+						severity: "warning",
+						code: "required-config-node",
+						property: ref.property,
+						message: `Required ${ref.type} config node is not set in "${ref.property}"`,
+					});
+				}
+				continue;
+			}
+			const target = byId.get(String(value));
+			if (!target) {
+				report(node, {
+					severity: "error",
+					code: "missing-config-node",
+					property: ref.property,
+					message: `"${ref.property}" points to missing ${ref.type} config node ${value}`,
+				});
+			} else if (target.type !== ref.type) {
+				report(node, {
+					severity: "error",
+					code: "wrong-config-node-type",
+					property: ref.property,
+					message: `"${ref.property}" points to ${target.type} ${value}, expected ${ref.type}`,
+				});
+			}
+		}
+	}
+
+	const errors = findings.filter((f) => f.severity === "error").length;
+	return {
+		ok: errors === 0,
+		summary: { errors, warnings: findings.length - errors, nodesChecked: checked.length },
+		findings,
+	};
+}
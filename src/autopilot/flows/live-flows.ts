@@ -0,0 +1,34 @@
+import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
+import { deployFlows, fetchFlowsAtRev } from "../utils.js";
+import { DEFAULT_DEPLOYMENT_TYPE, type DeploymentType, deploymentImpact } from "./deployment.js";
+import { snapshotLiveFlows } from "./snapshot-store.js";
+
+/**
+ * Single read-modify-write of `/flows`: read, apply `mutate`, snapshot the original, deploy
+ * with the `rev` that was read so concurrent edits are rejected instead of overwritten.
+ * `mutate` may throw to abort before anything is written; returning `changed: false` skips
+ * the deploy entirely. Passing `rev` additionally requires the flows to still be at that rev.
+ * The result reports which nodes the chosen deployment type restarts.
+ */
+export async function updateLiveFlows<T extends { flows: any[]; changed?: boolean }>(
+	config: AutopilotMcpConfig,
+	tool: string,
+	mutate: (flows: any[]) => T | Promise<T>,
+	{
+		rev,
+		deploymentType = DEFAULT_DEPLOYMENT_TYPE,
+	}: { rev?: string | null; deploymentType?: DeploymentType } = {},
+) {
+	const current = await fetchFlowsAtRev(config, rev);
+	const result = await mutate(current.flows);
+	if (result.changed === false) {
+		return { ...result, snapshot: null, rev: current.rev, deployment: null };
+	}
+	const snapshot = await snapshotLiveFlows(config, tool, current.flows);
+	const deployed = await deployFlows(config, result.flows, {
+		rev: rev || current.rev,
+		deploymentType,
+	});
+	const deployment = deploymentImpact(current.flows, result.flows, deploymentType);
+	return { ...result, snapshot, rev: deployed.rev, deployment };
+}
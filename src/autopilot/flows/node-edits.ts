@@ -0,0 +1,322 @@
+/**
+ * Pure, node-level edits on a Node-RED flow array.
+ *
+ * Each function takes the current `/flows` array and returns a new array plus a small
+ * result describing what changed, so tools can do a single read-modify-write of `/flows`
+ * without asking the client to re-emit whole tabs.
+ */
+
+import { isPlainObject } from "../utils.js";
+
+/**
+ * Generate a Node-RED style node ID (16 hex chars).
+ */
+export function generateNodeId() {
+	const bytes = new Uint8Array(8);
+	crypto.getRandomValues(bytes);
+	return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function findNode(flows: any[], id: string) {
+	const node = flows.find((n) => n?.id === id);
+	if (!node) throw new Error(`Unknown node: ${id}`);
+	return node;
+}
+
+/**
+ * Extract JSON-safe default values from a catalog `defaults` object. Values the AST evaluator
+ * could not resolve (`{ kind: "expr", ... }`) are skipped.
+ */
+export function catalogDefaultValues(defaults: unknown) {
+	const out: Record<string, unknown> = {};
+	if (!isPlainObject(defaults)) return out;
+	for (const [key, def] of Object.entries(defaults)) {
+		if (!isPlainObject(def) || !("value" in def)) continue;
+		const value = def.value;
+		if (isPlainObject(value) && typeof value.kind === "string") continue;
+		out[key] = value;
+	}
+	return out;
+}
+
+/**
+ * JSON Merge Patch (RFC 7396): objects merge recursively, `null` deletes a key.
+ */
+export function mergePatch(target: unknown, patch: unknown): any {
+	if (!isPlainObject(patch)) return patch;
+	const out: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+	for (const [key, value] of Object.entries(patch)) {
+		if (value === null) delete out[key];
+		else out[key] = mergePatch(out[key], value);
+	}
+	return out;
+}
+
+const NODE_ORIGIN = { x: 200, y: 100 };
+const ROW_HEIGHT = 80;
+
+// Below the lowest node already on the tab, so added nodes don't stack on top of each other.
+function freePosition(flows: any[], z?: string | null) {
+	const ys = flows
+		.filter((n) => n?.z === z && n.type !== "group" && Number.isFinite(n.y))
+		.map((n) => Number(n.y));
+	return { x: NODE_ORIGIN.x, y: ys.length ? Math.max(...ys) + ROW_HEIGHT : NODE_ORIGIN.y };
+}
+
+// Wires given in the new node's properties must target existing nodes on the same tab.
+function checkWires(flows: any[], node: Record<string, any>, catalogNode?: any) {
+	const { wires } = node;
+	if (!Array.isArray(wires) || !wires.every((p) => Array.isArray(p))) {
+		throw new Error("wires must be an array of output ports, each an array of node IDs");
+	}
+	const max = typeof catalogNode?.outputs === "number" ? catalogNode.outputs : null;
+	if (max !== null && wires.length > max) {
+		throw new Error(`Node type ${node.type} has ${max} output(s); got ${wires.length} ports`);
+	}
+	for (const to of wires.flat()) {
+		const target = findNode(flows, String(to));
+		if (target.z !== node.z) {
+			throw new Error(
+				`Nodes are on different tabs (${node.z} vs ${target.z}); use link nodes`,
+			);
+		}
+	}
+}
+
+export function addNode(
+	flows: any[],
+	{
+		type,
+		z,
+		properties = {},
+		catalogNode,
+	}: {
+		type: string;
+		z?: string | null;
+		properties?: Record<string, unknown>;
+		catalogNode?: any;
+	},
+) {
+	const isConfig = catalogNode?.category === "config";
+	if (z) {
+		const parent = flows.find((n) => n?.id === z);
+		if (!parent || (parent.type !== "tab" && parent.type !== "subflow")) {
+			throw new Error(`Unknown tab or subflow: ${z}`);
+		}
+	} else if (!isConfig) {
+		throw new Error(`A tab (z) is required for non-config node type ${type}`);
+	}
+
+	const id =
+		typeof properties.id === "string" && properties.id ? properties.id : generateNodeId();
+	if (flows.some((n) => n?.id === id)) throw new Error(`Node ID already in use: ${id}`);
+
+	const outputs = typeof catalogNode?.outputs === "number" ? catalogNode.outputs : 0;
+	const node: Record<string, any> = {
+		id,
+		type,
+		...(z ? { z } : {}),
+		...catalogDefaultValues(catalogNode?.defaults),
+		...(isConfig
+			? {}
+			: { ...freePosition(flows, z), wires: Array.from({ length: outputs }, () => []) }),
+		...properties,
+	};
+	node.id = id;
+	node.type = type;
+	if (z) node.z = z;
+	else delete node.z;
+	if ("wires" in node) checkWires(flows, node, catalogNode);
+
+	return { flows: [...flows, node], node };
+}
+
+export function updateNodeProperties(flows: any[], id: string, patch: Record<string, unknown>) {
+	findNode(flows, id);
+	if ("id" in patch || "type" in patch) {
+		throw new Error("Patch must not change the node's id or type");
+	}
+	let updated: any = null;
+	const next = flows.map((n) => {
+		if (n?.id !== id) return n;
+		updated = mergePatch(n, patch);
+		return updated;
+	});
+	return { flows: next, node: updated };
+}
+
+// Properties that hold structure or text rather than config-node references.
+const NON_REFERENCE_PROPERTIES = new Set([
+	"id",
+	"type",
+	"z",
+	"g",
+	"wires",
+	"links",
+	"nodes",
+	"name",
+	"label",
+	"info",
+]);
+const CONTAINER_TYPES = new Set(["tab", "subflow", "group"]);
+
+function isConfigNode(node: any, catalogNode?: any) {
+	if (catalogNode) return catalogNode.category === "config";
+	// Without the catalog: config nodes have no position and no wires.
+	return !CONTAINER_TYPES.has(node.type) && !Array.isArray(node.wires) && !("x" in node);
+}
+
+// Top-level properties of other nodes that hold `id`, e.g. an mqtt out node's `broker`.
+function configReferences(flows: any[], id: string) {
+	const refs: Array<{ id: string; property: string }> = [];
+	for (const n of flows) {
+		if (!n || n.id === id) continue;
+		for (const [property, value] of Object.entries(n)) {
+			if (value === id && !NON_REFERENCE_PROPERTIES.has(property)) {
+				refs.push({ id: n.id, property });
+			}
+		}
+	}
+	return refs;
+}
+
+export type DeleteNodeOptions = {
+	// Also delete the contents of a tab or subflow (and instances of a subflow).
+	cascade?: boolean;
+	// Delete a config node that is still referenced, clearing the references.
+	force?: boolean;
+	catalogNode?: any;
+};
+
+/**
+ * Delete a node and clean up every reference to it, like the Node-RED editor does:
+ * - incoming wires and link node `links` are removed
+ * - members of a deleted group move to its parent group (or become ungrouped)
+ * - a tab or subflow that still has nodes (or subflow instances) is refused unless `cascade`
+ * - a config node that is still referenced is refused unless `force`, which clears the
+ *   referencing properties
+ */
+export function deleteNode(
+	flows: any[],
+	id: string,
+	{ cascade = false, force = false, catalogNode }: DeleteNodeOptions = {},
+) {
+	const node = findNode(flows, id);
+	const removed = new Set<string>([id]);
+	const cleaned: Array<{ id: string; property: string }> = [];
+
+	if (node.type === "tab" || node.type === "subflow") {
+		const contents = flows.filter(
+			(n) => n?.z === id || (node.type === "subflow" && n?.type === `subflow:${id}`),
+		);
+		if (contents.length && !cascade) {
+			throw new Error(
+				`${node.type === "tab" ? "Tab" : "Subflow"} ${id} still has ${contents.length} node(s); pass cascade to delete them with it`,
+			);
+		}
+		for (const n of contents) removed.add(n.id);
+	}
+
+	const references = isConfigNode(node, catalogNode)
+		? configReferences(flows, id).filter((r) => !removed.has(r.id))
+		: [];
+	if (references.length && !force) {
+		throw new Error(
+			`Config node ${id} is still used by ${references.map((r) => `${r.id}.${r.property}`).join(", ")}; pass force to delete it and clear those references`,
+		);
+	}
+
+	// Members of a deleted group are handed to the group's own parent group, if any.
+	const parentGroup = node.type === "group" && typeof node.g === "string" ? node.g : null;
+	const members = node.type === "group" ? flows.filter((n) => n?.g === id).map((n) => n.id) : [];
+
+	const next = flows
+		.filter((n) => !removed.has(n?.id))
+		.map((n) => {
+			let out = n;
+			if (
+				Array.isArray(n.wires) &&
+				n.wires.some((p: any) => Array.isArray(p) && p.some((t) => removed.has(t)))
+			) {
+				out = {
+					...out,
+					wires: n.wires.map((p: any) =>
+						Array.isArray(p) ? p.filter((t) => !removed.has(t)) : p,
+					),
+				};
+				cleaned.push({ id: n.id, property: "wires" });
+			}
+			for (const property of ["links", "nodes"]) {
+				if (Array.isArray(n[property]) && n[property].some((t: string) => removed.has(t))) {
+					out = {
+						...out,
+						[property]: n[property].filter((t: string) => !removed.has(t)),
+					};
+					cleaned.push({ id: n.id, property });
+				}
+			}
+			if (n.id === parentGroup) out = { ...out, nodes: [...(out.nodes ?? []), ...members] };
+			if (removed.has(n.g)) {
+				const { g: _g, ...rest } = out;
+				out = n.g === id && parentGroup ? { ...rest, g: parentGroup } : rest;
+				cleaned.push({ id: n.id, property: "g" });
+			}
+			for (const ref of references) {
+				if (ref.id === n.id) {
+					out = { ...out, [ref.property]: "" };
+					cleaned.push(ref);
+				}
+			}
+			return out;
+		});
+
+	const cascaded = flows
+		.filter((n) => removed.has(n?.id) && n.id !== id)
+		.map((n) => ({ id: n.id, type: n.type }));
+	return { flows: next, node, cleaned, removed: cascaded };
+}
+
+export function connectNodes(
+	flows: any[],
+	{
+		from,
+		port = 0,
+		to,
+		outputs,
+	}: { from: string; port?: number; to: string; outputs?: number | null },
+) {
+	const source = findNode(flows, from);
+	const target = findNode(flows, to);
+	if (source.z !== target.z) {
+		throw new Error(`Nodes are on different tabs (${source.z} vs ${target.z}); use link nodes`);
+	}
+	const max = Number.isInteger(Number(source.outputs)) ? Number(source.outputs) : outputs;
+	if (typeof max === "number" && port >= max) {
+		throw new Error(`Node ${from} has ${max} output(s); port ${port} does not exist`);
+	}
+
+	const wires: string[][] = (Array.isArray(source.wires) ? source.wires : []).map((p: any) =>
+		Array.isArray(p) ? [...p] : [],
+	);
+	while (wires.length <= port) wires.push([]);
+	const changed = !wires[port].includes(to);
+	if (changed) wires[port].push(to);
+
+	const next = flows.map((n) => (n?.id === from ? { ...n, wires } : n));
+	return { flows: next, changed, wires };
+}
+
+export function disconnectNodes(
+	flows: any[],
+	{ from, port = 0, to }: { from: string; port?: number; to: string },
+) {
+	const source = findNode(flows, from);
+	const wires: string[][] = (Array.isArray(source.wires) ? source.wires : []).map((p: any) =>
+		Array.isArray(p) ? [...p] : [],
+	);
+	const changed = !!wires[port]?.includes(to);
+	if (changed) wires[port] = wires[port].filter((t) => t !== to);
+
+	const next = flows.map((n) => (n?.id === from ? { ...n, wires } : n));
+	return { flows: next, changed, wires };
+}
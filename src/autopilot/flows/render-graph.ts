@@ -0,0 +1,218 @@
+/**
+ * Render Node-RED flows as Mermaid or Graphviz DOT text, following the actual `wires`.
+ *
+ * - tabs/subflows and Node-RED `group` nodes become (nested) subgraphs
+ * - edges carry the 0-based output port they leave from
+ * - `link out`/`link call` -> `link in` pairs become dashed edges, even across tabs
+ */
+
+export type GraphFormat = "mermaid" | "dot";
+
+export type GraphOptions = {
+	format: GraphFormat;
+	// Only render this tab or subflow.
+	tab?: string;
+	// Only render nodes within `depth` hops (wires or links, either direction) of this node.
+	focus?: string;
+	depth?: number;
+	direction?: "LR" | "TB";
+};
+
+type Edge = { from: string; to: string; port: number | null; link: boolean };
+
+function isGraphNode(n: any) {
+	// Config nodes have no position; tabs, subflow definitions and groups become containers.
+	return (
+		n?.z &&
+		typeof n.x === "number" &&
+		n.type !== "group" &&
+		n.type !== "tab" &&
+		n.type !== "subflow"
+	);
+}
+
+function graphId(id: string) {
+	return `n_${String(id).replace(/[^A-Za-z0-9_]/g, "_")}`;
+}
+
+function nodeLabel(n: any, nodesByType: Record<string, any>) {
+	const palette = nodesByType[n.type]?.paletteLabel;
+	const name = n.name || n.label || (typeof palette === "string" ? palette : "");
+	return name && name !== n.type ? `${name} (${n.type})` : String(n.type);
+}
+
+function collectEdges(nodes: any[]) {
+	const edges: Edge[] = [];
+	for (const n of nodes) {
+		(Array.isArray(n.wires) ? n.wires : []).forEach((port: unknown, index: number) => {
+			for (const target of Array.isArray(port) ? port : []) {
+				edges.push({ from: n.id, to: String(target), port: index, link: false });
+			}
+		});
+		// `link in` also lists its sources; drawing from the sending side avoids duplicates.
+		if ((n.type === "link out" || n.type === "link call") && Array.isArray(n.links)) {
+			for (const target of n.links) {
+				edges.push({ from: n.id, to: String(target), port: null, link: true });
+			}
+		}
+	}
+	return edges;
+}
+
+function neighborhood(edges: Edge[], focus: string, depth: number) {
+	const adjacent = new Map<string, Set<string>>();
+	const link = (a: string, b: string) => {
+		if (!adjacent.has(a)) adjacent.set(a, new Set());
+		adjacent.get(a)!.add(b);
+	};
+	for (const e of edges) {
+		link(e.from, e.to);
+		link(e.to, e.from);
+	}
+	const seen = new Set([focus]);
+	let frontier = [focus];
+	for (let d = 0; d < depth && frontier.length; d++) {
+		const next: string[] = [];
+		for (const id of frontier) {
+			for (const other of adjacent.get(id) ?? []) {
+				if (seen.has(other)) continue;
+				seen.add(other);
+				next.push(other);
+			}
+		}
+		frontier = next;
+	}
+	return seen;
+}
+
+type Container = { id: string; label: string; kind: "tab" | "group"; children: Container[] };
+
+function buildContainers(flows: any[], included: any[]) {
+	const byId = new Map<string, any>(flows.map((n) => [String(n.id), n]));
+	const containers = new Map<string, Container>();
+	const roots: Container[] = [];
+	const members = new Map<string, string[]>();
+
+	const ensure = (id: string): Container | null => {
+		if (containers.has(id)) return containers.get(id)!;
+		const def = byId.get(id);
+		if (!def) return null;
+		const isGroup = def.type === "group";
+		const c: Container = {
+			id,
+			label: isGroup
+				? def.name || "group"
+				: `${def.type === "subflow" ? "subflow: " : ""}${def.label || def.name || id}`,
+			kind: isGroup ? "group" : "tab",
+			children: [],
+		};
+		containers.set(id, c);
+		const parent = isGroup ? (def.g ? ensure(def.g) : ensure(def.z)) : null;
+		if (parent) parent.children.push(c);
+		else roots.push(c);
+		return c;
+	};
+
+	for (const n of included) {
+		const owner = n.g && byId.get(n.g)?.type === "group" ? n.g : n.z;
+		if (!ensure(owner)) continue;
+		if (!members.has(owner)) members.set(owner, []);
+		members.get(owner)!.push(n.id);
+	}
+	return { roots, members };
+}
+
+function escapeMermaid(s: string) {
+	return String(s).replace(/"/g, "#quot;");
+}
+
+function escapeDot(s: string) {
+	return String(s).replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * Render flows as Mermaid (`flowchart`) or DOT (`digraph`) text.
+ */
+export function renderFlowGraph(
+	flows: any[],
+	nodesByType: Record<string, any>,
+	{ format, tab, focus, depth = 2, direction = "LR" }: GraphOptions,
+) {
+	const list = (Array.isArray(flows) ? flows : []).filter((n) => n && n.id != null);
+	const byId = new Map<string, any>(list.map((n) => [String(n.id), n]));
+	const graphNodes = list.filter(isGraphNode);
+	const allEdges = collectEdges(graphNodes).filter((e) => byId.has(e.to));
+
+	let included = graphNodes;
+	if (focus) {
+		if (!byId.has(focus)) throw new Error(`Unknown node: ${focus}`);
+		const ids = neighborhood(allEdges, focus, Math.max(0, depth));
+		included = included.filter((n) => ids.has(n.id));
+	}
+	if (tab) {
+		// Keep nodes on other tabs that link into/out of this tab as context.
+		const onTab = new Set(included.filter((n) => n.z === tab).map((n) => n.id));
+		const linked = new Set<string>();
+		for (const e of allEdges) {
+			if (!e.link) continue;
+			if (onTab.has(e.from)) linked.add(e.to);
+			if (onTab.has(e.to)) linked.add(e.from);
+		}
+		included = included.filter((n) => onTab.has(n.id) || linked.has(n.id));
+	}
+
+	const includedIds = new Set(included.map((n) => n.id));
+	const edges = allEdges.filter((e) => includedIds.has(e.from) && includedIds.has(e.to));
+	const { roots, members } = buildContainers(list, included);
+	const label = (id: string) => nodeLabel(byId.get(id), nodesByType);
+
+	const lines: string[] = [];
+	if (format === "mermaid") {
+		lines.push(`flowchart ${direction}`);
+		const emit = (c: Container, indent: string) => {
+			lines.push(`${indent}subgraph ${graphId(c.id)}["${escapeMermaid(c.label)}"]`);
+			for (const id of members.get(c.id) ?? []) {
+				lines.push(`${indent}    ${graphId(id)}["${escapeMermaid(label(id))}"]`);
+			}
+			for (const child of c.children) emit(child, `${indent}    `);
+			lines.push(`${indent}end`);
+		};
+		for (const root of roots) emit(root, "    ");
+		for (const e of edges) {
+			lines.push(
+				e.link
+					? `    ${graphId(e.from)} -.-> ${graphId(e.to)}`
+					: `    ${graphId(e.from)} -->|${e.port}| ${graphId(e.to)}`,
+			);
+		}
+	} else {
+		lines.push("digraph flows {");
+		lines.push(`    rankdir=${direction};`);
+		lines.push("    node [shape=box];");
+		const emit = (c: Container, indent: string) => {
+			lines.push(`${indent}subgraph cluster_${graphId(c.id)} {`);
+			lines.push(`${indent}    label="${escapeDot(c.label)}";`);
+			if (c.kind === "group") lines.push(`${indent}    style=dashed;`);
+			for (const id of members.get(c.id) ?? []) {
+				lines.push(`${indent}    ${graphId(id)} [label="${escapeDot(label(id))}"];`);
+			}
+			for (const child of c.children) emit(child, `${indent}    `);
+			lines.push(`${indent}}`);
+		};
+		for (const root of roots) emit(root, "    ");
+		for (const e of edges) {
+			lines.push(
+				e.link
+					? `    ${graphId(e.from)} -> ${graphId(e.to)} [style=dashed];`
+					: `    ${graphId(e.from)} -> ${graphId(e.to)} [label="${e.port}"];`,
+			);
+		}
+		lines.push("}");
+	}
+
+	return {
+		text: lines.join("\n"),
+		nodeCount: included.length,
+		edgeCount: edges.length,
+	};
+}
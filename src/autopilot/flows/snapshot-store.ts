@@ -0,0 +1,184 @@
+/**
+ * Flow snapshots persisted in SQLite storage of the shared NodeRedState Durable Object (one per
+ * Node-RED URL), so every MCP session sees the same history: a reconnect or another client
+ * can still roll back a deploy made in an earlier session.
+ *
+ * Every mutating flow tool stores the full `/flows` array here before it writes, so a bad
+ * deploy can be inspected and rolled back. Flow JSON is chunked because SQLite values in
+ * Durable Objects are capped at 2MB.
+ */
+
+import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
+import { fetchFlows } from "../utils.js";
+
+type SqlValue = string | number | boolean | null;
+
+export type SqlTag = <T = Record<string, SqlValue>>(
+	strings: TemplateStringsArray,
+	...values: SqlValue[]
+) => T[];
+
+export type FlowSnapshotMeta = {
+	id: number;
+	createdAt: string;
+	tool: string;
+	actor: string | null;
+	nodeRedUrl: string | null;
+	nodeCount: number;
+};
+
+export type FlowSnapshotEntry = {
+	tool: string;
+	actor?: string | null;
+	nodeRedUrl?: string | null;
+	flows: any[];
+};
+
+export type FlowSnapshot = { meta: FlowSnapshotMeta; flows: any[] };
+
+/**
+ * Snapshot methods of the NodeRedState Durable Object, as called through its RPC stub.
+ */
+export type FlowSnapshotRpc = {
+	saveSnapshot(entry: FlowSnapshotEntry, options?: { limit?: number }): Promise<FlowSnapshotMeta>;
+	listSnapshots(options?: { limit?: number }): Promise<FlowSnapshotMeta[]>;
+	getSnapshot(id: number): Promise<FlowSnapshot | null>;
+};
+
+const CHUNK_SIZE = 500_000;
+
+function toMeta(row: any): FlowSnapshotMeta {
+	return {
+		id: Number(row.id),
+		createdAt: new Date(Number(row.created_at)).toISOString(),
+		tool: String(row.tool),
+		actor: row.actor ?? null,
+		nodeRedUrl: row.node_red_url ?? null,
+		nodeCount: Number(row.node_count),
+	};
+}
+
+export class FlowSnapshotStore {
+	private _sql: SqlTag;
+	private _limit: number;
+	private _ready = false;
+
+	constructor(sql: SqlTag, { limit = 50 }: { limit?: number } = {}) {
+		this._sql = sql;
+		this._limit = Number.isFinite(limit) && limit > 0 ? limit : 50;
+	}
+
+	private _ensureSchema() {
+		if (this._ready) return;
+		this._sql`CREATE TABLE IF NOT EXISTS flow_snapshots (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			created_at INTEGER NOT NULL,
+			tool TEXT NOT NULL,
+			actor TEXT,
+			node_red_url TEXT,
+			node_count INTEGER NOT NULL
+		)`;
+		this._sql`CREATE TABLE IF NOT EXISTS flow_snapshot_chunks (
+			snapshot_id INTEGER NOT NULL,
+			seq INTEGER NOT NULL,
+			data TEXT NOT NULL,
+			PRIMARY KEY (snapshot_id, seq)
+		)`;
+		this._ready = true;
+	}
+
+	save(
+		{ tool, actor, nodeRedUrl, flows }: FlowSnapshotEntry,
+		{ limit }: { limit?: number } = {},
+	): FlowSnapshotMeta {
+		this._ensureSchema();
+		const json = JSON.stringify(flows ?? []);
+		const [row] = this._sql`INSERT INTO flow_snapshots
+			(created_at, tool, actor, node_red_url, node_count)
+			VALUES (${Date.now()}, ${tool}, ${actor ?? null}, ${nodeRedUrl ?? null}, ${Array.isArray(flows) ? flows.length : 0})
+			RETURNING *`;
+		const id = Number(row.id);
+		for (let seq = 0; seq * CHUNK_SIZE < json.length; seq++) {
+			const data = json.slice(seq * CHUNK_SIZE, (seq + 1) * CHUNK_SIZE);
+			this._sql`INSERT INTO flow_snapshot_chunks (snapshot_id, seq, data)
+				VALUES (${id}, ${seq}, ${data})`;
+		}
+		this._prune(limit && limit > 0 ? limit : this._limit);
+		return toMeta(row);
+	}
+
+	list({ limit = 20 }: { limit?: number } = {}): FlowSnapshotMeta[] {
+		this._ensureSchema();
+		const rows = this._sql`SELECT * FROM flow_snapshots ORDER BY id DESC LIMIT ${limit}`;
+		return rows.map(toMeta);
+	}
+
+	get(id: number): FlowSnapshot | null {
+		this._ensureSchema();
+		const [row] = this._sql`SELECT * FROM flow_snapshots WHERE id = ${id}`;
+		if (!row) return null;
+		const chunks = this._sql<{ data: string }>`
+			SELECT data FROM flow_snapshot_chunks WHERE snapshot_id = ${id} ORDER BY seq`;
+		const flows = JSON.parse(chunks.map((c) => c.data).join("") || "[]");
+		return { meta: toMeta(row), flows };
+	}
+
+	private _prune(limit: number) {
+		const stale = this._sql<{ id: number }>`
+			SELECT id FROM flow_snapshots ORDER BY id DESC LIMIT -1 OFFSET ${limit}`;
+		for (const { id } of stale) {
+			this._sql`DELETE FROM flow_snapshot_chunks WHERE snapshot_id = ${id}`;
+			this._sql`DELETE FROM flow_snapshots WHERE id = ${id}`;
+		}
+	}
+}
+
+export function createFlowSnapshotStore(sql: SqlTag, options?: { limit?: number }) {
+	return new FlowSnapshotStore(sql, options);
+}
+
+/**
+ * Session-side view of the snapshots held by the shared NodeRedState Durable Object.
+ */
+export class SharedFlowSnapshots {
+	private _rpc: FlowSnapshotRpc;
+	private _limit?: number;
+
+	constructor(rpc: FlowSnapshotRpc, { limit }: { limit?: number } = {}) {
+		this._rpc = rpc;
+		this._limit = limit;
+	}
+
+	save(entry: FlowSnapshotEntry) {
+		return this._rpc.saveSnapshot(entry, { limit: this._limit });
+	}
+
+	list(options: { limit?: number } = {}) {
+		return this._rpc.listSnapshots(options);
+	}
+
+	get(id: number) {
+		return this._rpc.getSnapshot(id);
+	}
+}
+
+export function createSharedFlowSnapshots(rpc: FlowSnapshotRpc, options?: { limit?: number }) {
+	return new SharedFlowSnapshots(rpc, options);
+}
+
+/**
+ * Save the live `/flows` before a mutating tool runs. Returns null when no store is configured
+ * (e.g. the toolset is hosted without the NODE_RED_STATE binding). Pass `flows` when the caller has
+ * already read them to avoid a second fetch.
+ */
+export async function snapshotLiveFlows(config: AutopilotMcpConfig, tool: string, current?: any[]) {
+	const store = config.flowSnapshots;
+	if (!store) return null;
+	const flows = current ?? (await fetchFlows(config)).flows;
+	return store.save({
+		tool,
+		actor: config.getActor?.() ?? null,
+		nodeRedUrl: config.nodeRedUrl,
+		flows,
+	});
+}
@@ -0,0 +1,316 @@
+/**
+ * Trace message paths into (upstream) and out of (downstream) a node.
+ *
+ * Besides plain `wires` this follows:
+ * - `link out` -> `link in` pairs, including across tabs
+ * - `link call` -> `link in`, and `link out` in "return" mode back to the calling `link call`
+ * - subflow instances: into the subflow definition via its input port and back out through
+ *   the instance's matching output port
+ *
+ * Calls are tracked on a stack, so a path that enters a subflow or link call leaves through
+ * the same instance it entered. Without that context (e.g. a trace starting inside a subflow)
+ * every instance / caller is followed.
+ */
+
+import { type FlowNodeRef, nodeRef } from "./diff-flows.js";
+
+export type TraceVia = "wire" | "link" | "link-call" | "link-return" | "subflow-in" | "subflow-out";
+
+export type TraceStep = FlowNodeRef & {
+	// How the message reached this node from the previous step; absent on the first step.
+	via?: TraceVia;
+	// Output port of the previous step the message left from (wires and subflow outputs only).
+	port?: number;
+};
+
+export type TracePath = {
+	steps: TraceStep[];
+	// Why the path stops: no further nodes, depth limit, or a loop back onto the path.
+	end: "terminal" | "depth" | "cycle";
+};
+
+export type TraceOptions = {
+	direction?: "upstream" | "downstream" | "both";
+	depth?: number;
+	maxPaths?: number;
+};
+
+type Hop = { id: string; via: TraceVia; port?: number; stack: string[] };
+
+function subflowId(n: any) {
+	const type = String(n?.type ?? "");
+	return type.startsWith("subflow:") ? type.slice("subflow:".length) : null;
+}
+
+function portTargets(port: unknown) {
+	return Array.isArray(port) ? port.map(String) : [];
+}
+
+function buildIndex(flows: any[]) {
+	const byId = new Map<string, any>();
+	const sources = new Map<string, Array<{ id: string; port: number }>>();
+	const linkSources = new Map<string, Array<{ id: string; via: TraceVia }>>();
+	const instances = new Map<string, any[]>();
+
+	for (const n of flows) {
+		if (!n || n.id == null) continue;
+		byId.set(String(n.id), n);
+	}
+	for (const n of byId.values()) {
+		(Array.isArray(n.wires) ? n.wires : []).forEach((port: unknown, index: number) => {
+			for (const target of portTargets(port)) {
+				if (!sources.has(target)) sources.set(target, []);
+				sources.get(target)!.push({ id: n.id, port: index });
+			}
+		});
+		const isCall = n.type === "link call";
+		if ((n.type === "link out" && n.mode !== "return") || isCall) {
+			for (const target of portTargets(n.links)) {
+				if (!linkSources.has(target)) linkSources.set(target, []);
+				linkSources.get(target)!.push({ id: n.id, via: isCall ? "link-call" : "link" });
+			}
+		}
+		const sf = subflowId(n);
+		if (sf) {
+			if (!instances.has(sf)) instances.set(sf, []);
+			instances.get(sf)!.push(n);
+		}
+	}
+	return { byId, sources, linkSources, instances };
+}
+
+type TraceIndex = ReturnType<typeof buildIndex>;
+
+// Tabs holding the `link in` nodes a `link call` invokes.
+function calledTabs(index: TraceIndex, call: any) {
+	const tabs = new Set<string>();
+	for (const id of portTargets(call?.links)) {
+		const target = index.byId.get(id);
+		if (target?.z) tabs.add(target.z);
+	}
+	return tabs;
+}
+
+function downstreamHops(index: TraceIndex, n: any, stack: string[]): Hop[] {
+	const hops: Hop[] = [];
+	const sf = subflowId(n);
+	const def = sf ? index.byId.get(sf) : null;
+
+	if (def?.type === "subflow") {
+		for (const w of def.in?.[0]?.wires ?? []) {
+			hops.push({ id: String(w.id), via: "subflow-in", stack: [...stack, n.id] });
+		}
+	} else if (n.type === "link call") {
+		for (const id of portTargets(n.links)) {
+			hops.push({ id, via: "link-call", stack: [...stack, n.id] });
+		}
+	} else if (n.type === "link out") {
+		if (n.mode === "return") {
+			const top = index.byId.get(stack[stack.length - 1]);
+			const callers =
+				top?.type === "link call"
+					? [top]
+					: [...index.byId.values()].filter(
+							(c) => c.type === "link call" && calledTabs(index, c).has(n.z),
+						);
+			const rest = top?.type === "link call" ? stack.slice(0, -1) : stack;
+			for (const caller of callers) {
+				(Array.isArray(caller.wires) ? caller.wires : []).forEach(
+					(port: unknown, i: number) => {
+						for (const id of portTargets(port)) {
+							hops.push({ id, via: "link-return", port: i, stack: rest });
+						}
+					},
+				);
+			}
+		} else {
+			for (const id of portTargets(n.links)) hops.push({ id, via: "link", stack });
+		}
+	} else {
+		(Array.isArray(n.wires) ? n.wires : []).forEach((port: unknown, i: number) => {
+			for (const id of portTargets(port)) hops.push({ id, via: "wire", port: i, stack });
+		});
+	}
+
+	// Leaving a subflow through one of its output ports.
+	const parent = index.byId.get(n.z);
+	if (parent?.type === "subflow") {
+		const top = index.byId.get(stack[stack.length - 1]);
+		const entered = subflowId(top) === parent.id;
+		const owners = entered ? [top] : (index.instances.get(parent.id) ?? []);
+		const rest = entered ? stack.slice(0, -1) : stack;
+		(parent.out ?? []).forEach((out: any, i: number) => {
+			if (!(out?.wires ?? []).some((w: any) => String(w.id) === n.id)) return;
+			for (const owner of owners) {
+				for (const id of portTargets(owner.wires?.[i])) {
+					hops.push({ id, via: "subflow-out", port: i, stack: rest });
+				}
+			}
+		});
+	}
+	return hops;
+}
+
+function upstreamHops(index: TraceIndex, n: any, stack: string[]): Hop[] {
+	const hops: Hop[] = [];
+
+	for (const src of index.sources.get(n.id) ?? []) {
+		const source = index.byId.get(src.id);
+		const sf = subflowId(source);
+		const def = sf ? index.byId.get(sf) : null;
+		if (def?.type === "subflow") {
+			// The instance output is fed by the nodes wired to the definition's output port.
+			for (const w of def.out?.[src.port]?.wires ?? []) {
+				hops.push({
+					id: String(w.id),
+					via: "subflow-out",
+					port: src.port,
+					stack: [...stack, source.id],
+				});
+			}
+		} else if (source?.type === "link call") {
+			// A link call's outputs carry whatever the called flow returned.
+			for (const ret of index.byId.values()) {
+				if (ret.type !== "link out" || ret.mode !== "return") continue;
+				if (!calledTabs(index, source).has(ret.z)) continue;
+				hops.push({
+					id: ret.id,
+					via: "link-return",
+					port: src.port,
+					stack: [...stack, source.id],
+				});
+			}
+		} else {
+			hops.push({ id: src.id, via: "wire", port: src.port, stack });
+		}
+	}
+
+	if (n.type === "link in") {
+		const top = index.byId.get(stack[stack.length - 1]);
+		const seen = new Set<string>();
+		const callers = index.linkSources.get(n.id) ?? [];
+		for (const src of callers) {
+			// Inside a traced link call only that caller reaches this link in.
+			if (top?.type === "link call" && src.via === "link-call" && src.id !== top.id) continue;
+			seen.add(src.id);
+			const rest =
+				top?.type === "link call" && src.id === top.id ? stack.slice(0, -1) : stack;
+			hops.push({ id: src.id, via: src.via, stack: rest });
+		}
+		// Older flows only list sources on the `link in` side.
+		for (const id of portTargets(n.links)) {
+			if (!seen.has(id) && index.byId.get(id)?.type === "link out") {
+				hops.push({ id, via: "link", stack });
+			}
+		}
+	}
+
+	// Entering a subflow's input port from the instance(s) outside.
+	const parent = index.byId.get(n.z);
+	if (parent?.type === "subflow") {
+		const fedByInput = (parent.in?.[0]?.wires ?? []).some((w: any) => String(w.id) === n.id);
+		if (fedByInput) {
+			const top = index.byId.get(stack[stack.length - 1]);
+			const entered = subflowId(top) === parent.id;
+			const owners = entered ? [top] : (index.instances.get(parent.id) ?? []);
+			const rest = entered ? stack.slice(0, -1) : stack;
+			for (const owner of owners) hops.push({ id: owner.id, via: "subflow-in", stack: rest });
+		}
+	}
+	return hops;
+}
+
+function walk(
+	index: TraceIndex,
+	start: string,
+	next: (n: any, stack: string[]) => Hop[],
+	depth: number,
+	maxPaths: number,
+) {
+	const paths: Array<{ hops: Hop[]; end: TracePath["end"] }> = [];
+	let truncated = false;
+
+	const visit = (hops: Hop[], onPath: Set<string>, stack: string[]) => {
+		if (paths.length >= maxPaths) {
+			truncated = true;
+			return;
+		}
+		const current = index.byId.get(hops.length ? hops[hops.length - 1].id : start);
+		const options = current ? next(current, stack).filter((h) => index.byId.has(h.id)) : [];
+		if (!options.length) {
+			if (hops.length) paths.push({ hops, end: "terminal" });
+			return;
+		}
+		if (hops.length >= depth) {
+			paths.push({ hops, end: "depth" });
+			return;
+		}
+		for (const hop of options) {
+			if (onPath.has(hop.id)) {
+				paths.push({ hops: [...hops, hop], end: "cycle" });
+				continue;
+			}
+			visit([...hops, hop], new Set([...onPath, hop.id]), hop.stack);
+			if (truncated) return;
+		}
+	};
+	visit([], new Set([start]), []);
+	return { paths, truncated };
+}
+
+function step(index: TraceIndex, id: string, hop?: Hop): TraceStep {
+	const ref = nodeRef(index.byId.get(id));
+	if (!hop) return ref;
+	return { ...ref, via: hop.via, ...(hop.port !== undefined ? { port: hop.port } : {}) };
+}
+
+/**
+ * Enumerate message paths through a node. Downstream paths are listed from the node outward;
+ * upstream paths are listed in message order, i.e. from the source towards the node.
+ */
+export function traceNode(
+	flows: any[],
+	id: string,
+	{ direction = "both", depth = 10, maxPaths = 50 }: TraceOptions = {},
+) {
+	const index = buildIndex(Array.isArray(flows) ? flows : []);
+	if (!index.byId.has(id)) throw new Error(`Unknown node: ${id}`);
+
+	const summarize = (paths: TracePath[], truncated: boolean) => {
+		const nodes = new Map<string, FlowNodeRef>();
+		for (const p of paths) {
+			for (const s of p.steps)
+				if (s.id !== id) nodes.set(s.id, nodeRef(index.byId.get(s.id)));
+		}
+		return { pathCount: paths.length, truncated, nodes: [...nodes.values()], paths };
+	};
+
+	const result: Record<string, unknown> = { node: nodeRef(index.byId.get(id)) };
+
+	if (direction !== "upstream") {
+		const walked = walk(index, id, (n, s) => downstreamHops(index, n, s), depth, maxPaths);
+		const paths = walked.paths.map(({ hops, end }) => ({
+			steps: [step(index, id), ...hops.map((h) => step(index, h.id, h))],
+			end,
+		}));
+		result.downstream = summarize(paths, walked.truncated);
+	}
+
+	if (direction !== "downstream") {
+		const walked = walk(index, id, (n, s) => upstreamHops(index, n, s), depth, maxPaths);
+		const paths = walked.paths.map(({ hops, end }) => {
+			// hops[k] is the edge hops[k].id -> (hops[k-1].id | id); reverse into message order.
+			const ids = [id, ...hops.map((h) => h.id)].reverse();
+			const edges = [...hops].reverse();
+			return {
+				steps: ids.map((nid, i) =>
+					i === 0 ? step(index, nid) : step(index, nid, edges[i - 1]),
+				),
+				end,
+			};
+		});
+		result.upstream = summarize(paths, walked.truncated);
+	}
+
+	return result;
+}
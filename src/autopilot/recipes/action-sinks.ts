@@ -0,0 +1,286 @@
+/**
+ * Output side of a clause per action protocol: the sink node, its config node (if any) and
+ * the prose steps describing both. OSC and MIDI go through tl-output; MQTT, HTTP, WebSocket
+ * and UDP use Node-RED core nodes.
+ */
+
+import type { PlannedNode } from "./build-flow.js";
+import type { ActionIntent } from "./intent-parser.js";
+
+export type ActionProtocol = ActionIntent["protocol"];
+
+const OUTPUT_TYPE = "tl-output";
+const OUTPUT_SERVER_TYPE = "tl-output-server";
+
+// Node types each protocol needs; a protocol is available when all of them are installed.
+export const PROTOCOL_NODE_TYPES: Record<ActionProtocol, string[]> = {
+	osc: [OUTPUT_TYPE, OUTPUT_SERVER_TYPE],
+	midi: [OUTPUT_TYPE, OUTPUT_SERVER_TYPE],
+	mqtt: ["mqtt out", "mqtt-broker"],
+	http: ["http request"],
+	websocket: ["websocket out", "websocket-client"],
+	udp: ["udp out"],
+};
+
+export type ActionSink = {
+	nodeTypes: string[];
+	// Value for msg.topic set by the mapping (the OSC address); null leaves msg.topic alone.
+	topic: string | null;
+	sink: { type: string; properties: Record<string, unknown> };
+	// Config node shared by clauses with the same key, and the sink property referencing it.
+	config: PlannedNode | null;
+	configRef: string | null;
+	steps: Array<{ node: string; role: "config" | "sink"; notes: string; config: any }>;
+};
+
+export function protocolAvailability(nodesByType: Record<string, any>) {
+	return Object.fromEntries(
+		Object.entries(PROTOCOL_NODE_TYPES).map(([protocol, types]) => {
+			const missingNodes = types.filter((t) => !nodesByType[t]);
+			return [protocol, { available: !missingNodes.length, missingNodes }];
+		}),
+	) as Record<ActionProtocol, { available: boolean; missingNodes: string[] }>;
+}
+
+/**
+ * Key of the config node an action needs (null when the sink has none); clauses that target
+ * the same server, broker or socket share it.
+ */
+export function configKey(action: ActionIntent) {
+	if (action.protocol === "osc") return `server:osc:${action.host}:${action.port}`;
+	if (action.protocol === "midi") return "server:midi:0";
+	if (action.protocol === "mqtt") return `config:mqtt-broker:${action.broker}:${action.port}`;
+	if (action.protocol === "websocket") return `config:websocket-client:${action.url}`;
+	return null;
+}
+
+// Action as reported in the suggest-flow response.
+export function actionSummary(action: ActionIntent) {
+	const { protocol, ...rest } = action;
+	return { type: protocol, ...rest };
+}
+
+export function planActionSink(action: ActionIntent, vizType: string): ActionSink {
+	const key = configKey(action);
+	const nodeTypes = PROTOCOL_NODE_TYPES[action.protocol];
+
+	if (action.protocol === "osc") {
+		return {
+			nodeTypes,
+			topic: action.address,
+			sink: { type: OUTPUT_TYPE, properties: { address: "", vizType } },
+			config: {
+				key: key!,
+				type: OUTPUT_SERVER_TYPE,
+				role: "config",
+				config: true,
+				properties: {
+					name: `OSC ${action.host}:${action.port}`,
+					protocol: "osc",
+					host: action.host,
+					port: action.port,
+					udpFamily: "udp4",
+				},
+				matchOn: ["protocol", "host", "port"],
+			},
+			configRef: "server",
+			steps: [
+				{
+					node: OUTPUT_SERVER_TYPE,
+					role: "config",
+					notes: `Create/reuse an OSC server config: host=${action.host}, port=${action.port}, udpFamily=udp4.`,
+					config: {
+						protocol: "osc",
+						host: action.host,
+						port: action.port,
+						udpFamily: "udp4",
+					},
+				},
+				{
+					node: OUTPUT_TYPE,
+					role: "sink",
+					notes: "Wire into tl-output. Leave Address blank to use msg.topic as OSC address, or set Address to a fixed address.",
+					config: {
+						server: "(select your tl-output-server)",
+						address: "(blank to use msg.topic)",
+						vizType,
+					},
+				},
+			],
+		};
+	}
+
+	if (action.protocol === "midi") {
+		return {
+			nodeTypes,
+			topic: null,
+			sink: { type: OUTPUT_TYPE, properties: { vizType } },
+			config: {
+				key: key!,
+				type: OUTPUT_SERVER_TYPE,
+				role: "config",
+				config: true,
+				properties: { name: "MIDI", protocol: "midi", midiPort: 0 },
+				matchOn: ["protocol", "midiPort"],
+			},
+			configRef: "server",
+			steps: [
+				{
+					node: OUTPUT_SERVER_TYPE,
+					role: "config",
+					notes: "Create/reuse a MIDI server config: set protocol=midi and pick midiPort.",
+					config: { protocol: "midi", midiPort: 0 },
+				},
+				{
+					node: OUTPUT_TYPE,
+					role: "sink",
+					notes: "Wire into tl-output. For MIDI, msg.topic is ignored; the midi step sets msg.midi (type/channel/data) and the same raw bytes in msg.payload.",
+					config: { server: "(select your tl-output-server)", vizType },
+				},
+			],
+		};
+	}
+
+	if (action.protocol === "mqtt") {
+		const broker = {
+			name: `MQTT ${action.broker}:${action.port}`,
+			broker: action.broker,
+			port: action.port,
+			clientid: "",
+			autoConnect: true,
+			usetls: false,
+			protocolVersion: "4",
+			keepalive: "60",
+			cleansession: true,
+		};
+		return {
+			nodeTypes,
+			topic: null,
+			sink: {
+				type: "mqtt out",
+				properties: { name: action.topic, topic: action.topic, qos: "0", retain: "false" },
+			},
+			config: {
+				key: key!,
+				type: "mqtt-broker",
+				role: "config",
+				config: true,
+				properties: broker,
+				matchOn: ["broker", "port"],
+			},
+			configRef: "broker",
+			steps: [
+				{
+					node: "mqtt-broker",
+					role: "config",
+					notes: `Create/reuse an MQTT broker config: broker=${action.broker}, port=${action.port}.`,
+					config: { broker: action.broker, port: action.port },
+				},
+				{
+					node: "mqtt out",
+					role: "sink",
+					notes: `Wire into mqtt out. Publishes msg.payload to topic "${action.topic}" (QoS 0, not retained).`,
+					config: { broker: "(select your mqtt-broker)", topic: action.topic, qos: "0" },
+				},
+			],
+		};
+	}
+
+	if (action.protocol === "http") {
+		// GET has no body, so the payload goes into the query string instead.
+		const paytoqs = action.method === "GET" ? "query" : "ignore";
+		return {
+			nodeTypes,
+			topic: null,
+			sink: {
+				type: "http request",
+				properties: {
+					name: `${action.method} ${action.url}`,
+					method: action.method,
+					ret: "txt",
+					paytoqs,
+					url: action.url,
+					persist: false,
+				},
+			},
+			config: null,
+			configRef: null,
+			steps: [
+				{
+					node: "http request",
+					role: "sink",
+					notes:
+						action.method === "GET"
+							? `Wire into http request. Sends GET ${action.url} with msg.payload as query parameters.`
+							: `Wire into http request. Sends ${action.method} ${action.url} with msg.payload as the body (objects are sent as JSON).`,
+					config: { method: action.method, url: action.url, paytoqs, ret: "txt" },
+				},
+			],
+		};
+	}
+
+	if (action.protocol === "websocket") {
+		return {
+			nodeTypes,
+			topic: null,
+			sink: { type: "websocket out", properties: { name: action.url, server: "" } },
+			config: {
+				key: key!,
+				type: "websocket-client",
+				role: "config",
+				config: true,
+				properties: {
+					path: action.url,
+					tls: "",
+					wholemsg: "false",
+					hb: "0",
+					subprotocol: "",
+				},
+				matchOn: ["path"],
+			},
+			configRef: "client",
+			steps: [
+				{
+					node: "websocket-client",
+					role: "config",
+					notes: `Create/reuse a WebSocket client config: url=${action.url}, send payload only.`,
+					config: { path: action.url, wholemsg: "false" },
+				},
+				{
+					node: "websocket out",
+					role: "sink",
+					notes: "Wire into websocket out (type: connect to). Sends msg.payload as a text frame (objects as JSON).",
+					config: { client: "(select your websocket-client)" },
+				},
+			],
+		};
+	}
+
+	return {
+		nodeTypes,
+		topic: null,
+		sink: {
+			type: "udp out",
+			properties: {
+				name: `UDP ${action.host}:${action.port}`,
+				addr: action.host,
+				port: String(action.port),
+				iface: "",
+				ipv: "udp4",
+				outport: "",
+				base64: false,
+				multicast: "false",
+			},
+		},
+		config: null,
+		configRef: null,
+		steps: [
+			{
+				node: "udp out",
+				role: "sink",
+				notes: `Wire into udp out. Sends msg.payload as a raw datagram to ${action.host}:${action.port} (use a Buffer for binary data).`,
+				config: { addr: action.host, port: action.port, ipv: "udp4" },
+			},
+		],
+	};
+}
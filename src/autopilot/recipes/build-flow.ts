@@ -0,0 +1,165 @@
+/**
+ * Turn a recipe plan (a small graph of typed nodes keyed by role) into deployable Node-RED
+ * nodes: real IDs, filled `wires`, catalog defaults, config-node references and x/y positions.
+ */
+
+import { catalogDefaultValues, generateNodeId } from "../flows/index.js";
+
+export type PlannedNode = {
+	key: string;
+	type: string;
+	role: string;
+	properties?: Record<string, unknown>;
+	// Properties that hold the ID of another planned node (e.g. tl-output.server -> "server").
+	refs?: Record<string, string>;
+	wires?: Array<{ port: number; to: string }>;
+	// Nodes sharing a lane are laid out as one row band (e.g. one intent clause).
+	lane?: number;
+	// Config nodes are global, have no position and are reused when an identical one exists.
+	config?: boolean;
+	// Properties compared when looking for a reusable config node.
+	matchOn?: string[];
+};
+
+export type BuildFlowOptions = {
+	nodesByType: Record<string, any>;
+	// Live flows, used to reuse config nodes and validate `tab`.
+	flows?: any[];
+	// Existing tab to place the nodes on; a new tab node is emitted when omitted.
+	tab?: string;
+	tabLabel?: string;
+};
+
+const COLUMN_WIDTH = 220;
+const ROW_HEIGHT = 80;
+const ORIGIN = { x: 160, y: 100 };
+
+/**
+ * Output port of a node by role (e.g. "stream"), using the catalog's `outputLabels` when they
+ * are static strings and `fallback` otherwise.
+ */
+export function outputPortByLabel(catalogNode: any, label: string, fallback: number) {
+	const labels = catalogNode?.outputLabels;
+	if (Array.isArray(labels)) {
+		const index = labels.findIndex(
+			(l) => typeof l === "string" && l.toLowerCase().includes(label),
+		);
+		if (index >= 0) return index;
+	}
+	return fallback;
+}
+
+function findReusableConfig(flows: any[], planned: PlannedNode) {
+	const props = planned.properties ?? {};
+	const keys = planned.matchOn ?? Object.keys(props);
+	return flows.find(
+		(n) =>
+			n?.type === planned.type &&
+			keys.every((k) => String(n[k] ?? "") === String(props[k] ?? "")),
+	);
+}
+
+// Column = longest chain of wires leading to the node, so data flows left to right.
+function layoutColumns(plan: PlannedNode[]) {
+	const columns = new Map<string, number>(plan.map((p) => [p.key, 0]));
+	for (let pass = 0; pass < plan.length; pass++) {
+		let moved = false;
+		for (const p of plan) {
+			for (const w of p.wires ?? []) {
+				const next = (columns.get(p.key) ?? 0) + 1;
+				if (columns.has(w.to) && columns.get(w.to)! < next) {
+					columns.set(w.to, next);
+					moved = true;
+				}
+			}
+		}
+		if (!moved) break;
+	}
+	return columns;
+}
+
+// Lanes stack vertically; within a lane nodes in the same column stack row by row.
+function layout(plan: PlannedNode[]) {
+	const columns = layoutColumns(plan);
+	const positions = new Map<string, { column: number; row: number }>();
+	const lanes = [...new Set(plan.map((p) => p.lane ?? 0))].sort((a, b) => a - b);
+	let top = 0;
+	for (const lane of lanes) {
+		const rows = new Map<number, number>();
+		for (const p of plan.filter((n) => (n.lane ?? 0) === lane)) {
+			const column = columns.get(p.key) ?? 0;
+			const row = rows.get(column) ?? 0;
+			rows.set(column, row + 1);
+			positions.set(p.key, { column, row: top + row });
+		}
+		top += Math.max(1, ...rows.values());
+	}
+	return positions;
+}
+
+export function buildFlowNodes(
+	plan: PlannedNode[],
+	{ nodesByType, flows = [], tab, tabLabel }: BuildFlowOptions,
+) {
+	if (tab && !flows.some((n) => n?.id === tab && n.type === "tab")) {
+		throw new Error(`Unknown tab: ${tab}`);
+	}
+	const tabId = tab ?? generateNodeId();
+	const ids = new Map<string, string>();
+	const reusedConfigNodes: Array<{ key: string; id: string; type: string }> = [];
+
+	for (const p of plan) {
+		if (ids.has(p.key)) throw new Error(`Duplicate plan key: ${p.key}`);
+		const existing = p.config ? findReusableConfig(flows, p) : null;
+		if (existing) {
+			ids.set(p.key, existing.id);
+			reusedConfigNodes.push({ key: p.key, id: existing.id, type: p.type });
+		} else {
+			ids.set(p.key, generateNodeId());
+		}
+	}
+
+	const positions = layout(plan.filter((p) => !p.config));
+	const nodes: any[] = [];
+
+	for (const p of plan) {
+		if (reusedConfigNodes.some((r) => r.key === p.key)) continue;
+		const catalogNode = nodesByType[p.type];
+		const node: Record<string, any> = {
+			id: ids.get(p.key),
+			type: p.type,
+			...(p.config ? {} : { z: tabId }),
+			...catalogDefaultValues(catalogNode?.defaults),
+			...(p.properties ?? {}),
+		};
+		for (const [prop, key] of Object.entries(p.refs ?? {})) {
+			if (ids.has(key)) node[prop] = ids.get(key);
+		}
+		if (!p.config) {
+			const position = positions.get(p.key) ?? { column: 0, row: 0 };
+			node.x = ORIGIN.x + position.column * COLUMN_WIDTH;
+			node.y = ORIGIN.y + position.row * ROW_HEIGHT;
+
+			const declared = typeof catalogNode?.outputs === "number" ? catalogNode.outputs : 0;
+			const outputs = Math.max(declared, ...(p.wires ?? []).map((w) => w.port + 1));
+			const wires: string[][] = Array.from({ length: outputs }, () => []);
+			for (const w of p.wires ?? []) {
+				if (ids.has(w.to)) wires[w.port].push(ids.get(w.to)!);
+			}
+			node.wires = wires;
+		}
+		nodes.push(node);
+	}
+
+	const tabNode = tab
+		? null
+		: { id: tabId, type: "tab", label: tabLabel || "Autopilot", disabled: false, info: "" };
+
+	return {
+		tab: tabId,
+		createdTab: !tab,
+		nodes: tabNode ? [tabNode, ...nodes] : nodes,
+		ids: Object.fromEntries(ids),
+		reusedConfigNodes,
+	};
+}
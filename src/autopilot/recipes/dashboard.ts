@@ -0,0 +1,244 @@
+/**
+ * Dashboard 2 scaffolding for the Time-Line widgets: find or create the ui-base, ui-theme,
+ * ui-page and ui-group config nodes, then place the widgets in the group and wire each one to
+ * the Time-Line output it listens to.
+ *
+ * Existing config nodes are matched by ID or name (groups), path or name (pages) and reused;
+ * only what is missing is planned.
+ */
+
+import { outputPortByLabel, type PlannedNode } from "./build-flow.js";
+
+export const TL_WIDGET_TYPES = [
+	"ui-tl-song-details",
+	"ui-tl-keypoint-details",
+	"ui-tl-upcoming-keypoints",
+] as const;
+
+export type TlWidgetType = (typeof TL_WIDGET_TYPES)[number];
+
+export type DashboardOptions = {
+	nodesByType: Record<string, any>;
+	widgets?: TlWidgetType[];
+	// Existing ui-group ID or name; a group with this name is created when none matches.
+	group?: string;
+	groupWidth?: number;
+	pageName?: string;
+	pagePath?: string;
+	// Keypoint the keypoint-details widget follows (default: whichever is current).
+	keypoint?: string;
+};
+
+// Widget -> source node type and the output it listens on.
+function widgetSource(widget: TlWidgetType, keypoint: string, nodesByType: Record<string, any>) {
+	if (widget === "ui-tl-keypoint-details") {
+		const type = `tl-keypoint-${keypoint}`;
+		return { type, port: outputPortByLabel(nodesByType[type], "event", 0), output: "event" };
+	}
+	const type = widget === "ui-tl-song-details" ? "tl-keypoint-current" : "tl-current-track";
+	return { type, port: outputPortByLabel(nodesByType[type], "stream", 1), output: "stream" };
+}
+
+function normalizePath(path: string) {
+	const trimmed = path.trim().replace(/\/+$/, "");
+	return trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+}
+
+function slug(text: string) {
+	return text
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+}
+
+/**
+ * Dashboard 2 config nodes already in `flows`.
+ */
+export function listDashboardNodes(flows: any[]) {
+	const ofType = (type: string) => flows.filter((n) => n?.type === type);
+	return {
+		bases: ofType("ui-base").map((n) => ({
+			id: String(n.id),
+			name: n.name ?? null,
+			path: n.path ?? null,
+		})),
+		themes: ofType("ui-theme").map((n) => ({ id: String(n.id), name: n.name ?? null })),
+		pages: ofType("ui-page").map((n) => ({
+			id: String(n.id),
+			name: n.name ?? null,
+			path: n.path ?? null,
+			ui: n.ui ?? null,
+			order: n.order ?? null,
+		})),
+		groups: ofType("ui-group").map((n) => ({
+			id: String(n.id),
+			name: n.name ?? null,
+			page: n.page ?? null,
+			width: n.width ?? null,
+			order: n.order ?? null,
+		})),
+	};
+}
+
+/**
+ * Plan the config nodes, widgets and sources for a Time-Line operator screen.
+ */
+export function planDashboard(
+	flows: any[],
+	{
+		nodesByType,
+		widgets = [...TL_WIDGET_TYPES],
+		group = "Time-Line",
+		groupWidth = 6,
+		pageName = "Time-Line",
+		pagePath,
+		keypoint = "current",
+	}: DashboardOptions,
+) {
+	const existing = listDashboardNodes(flows);
+	const plan: PlannedNode[] = [];
+	const reused: Array<{ type: string; id: string; name: string | null }> = [];
+	const path = normalizePath(pagePath ?? slug(pageName));
+
+	// Property value pointing at an existing node, or a ref to a planned one.
+	const link = (node: PlannedNode, prop: string, target: { id?: string; key?: string }) => {
+		if (target.id) node.properties = { ...node.properties, [prop]: target.id };
+		else node.refs = { ...node.refs, [prop]: target.key! };
+	};
+
+	let groupTarget: { id?: string; key?: string };
+	const existingGroup =
+		existing.groups.find((g) => g.id === group) ??
+		existing.groups.find((g) => g.name === group);
+	if (existingGroup) {
+		reused.push({ type: "ui-group", id: existingGroup.id, name: existingGroup.name });
+		groupTarget = { id: existingGroup.id };
+	} else {
+		const existingPage =
+			existing.pages.find((p) => p.path && normalizePath(String(p.path)) === path) ??
+			existing.pages.find((p) => p.name === pageName);
+		let pageTarget: { id?: string; key?: string };
+		if (existingPage) {
+			reused.push({ type: "ui-page", id: existingPage.id, name: existingPage.name });
+			pageTarget = { id: existingPage.id };
+		} else {
+			const base = existing.bases[0];
+			const theme = existing.themes[0];
+			if (base) reused.push({ type: "ui-base", id: base.id, name: base.name });
+			else
+				plan.push({
+					key: "dashboard.base",
+					type: "ui-base",
+					role: "config",
+					config: true,
+					properties: {
+						name: "Time-Line Dashboard",
+						path: "/dashboard",
+						includeClientData: true,
+						acceptsClientConfig: ["ui-notification", "ui-control"],
+						showPathInSidebar: false,
+						navigationStyle: "default",
+						titleBarStyle: "default",
+					},
+				});
+			if (theme) reused.push({ type: "ui-theme", id: theme.id, name: theme.name });
+			else
+				plan.push({
+					key: "dashboard.theme",
+					type: "ui-theme",
+					role: "config",
+					config: true,
+					properties: {
+						name: "Default Theme",
+						colors: {
+							surface: "#ffffff",
+							primary: "#0094CE",
+							bgPage: "#eeeeee",
+							groupBg: "#ffffff",
+							groupOutline: "#cccccc",
+						},
+						sizes: {
+							pagePadding: "12px",
+							groupGap: "12px",
+							groupBorderRadius: "4px",
+							widgetGap: "12px",
+						},
+					},
+				});
+			const page: PlannedNode = {
+				key: "dashboard.page",
+				type: "ui-page",
+				role: "config",
+				config: true,
+				properties: {
+					name: pageName,
+					path,
+					icon: "home",
+					layout: "grid",
+					order: existing.pages.length + 1,
+					className: "",
+					visible: "true",
+					disabled: "false",
+				},
+			};
+			link(page, "ui", base ? { id: base.id } : { key: "dashboard.base" });
+			link(page, "theme", theme ? { id: theme.id } : { key: "dashboard.theme" });
+			plan.push(page);
+			pageTarget = { key: page.key };
+		}
+
+		const pageId = pageTarget.id;
+		const node: PlannedNode = {
+			key: "dashboard.group",
+			type: "ui-group",
+			role: "config",
+			config: true,
+			properties: {
+				name: group,
+				width: String(groupWidth),
+				height: "1",
+				order: pageId ? existing.groups.filter((g) => g.page === pageId).length + 1 : 1,
+				showTitle: true,
+				className: "",
+				visible: "true",
+				disabled: "false",
+			},
+		};
+		link(node, "page", pageTarget);
+		plan.push(node);
+		groupTarget = { key: node.key };
+	}
+
+	// Widgets go after anything already in an existing group.
+	const offset = groupTarget.id ? flows.filter((n) => n?.group === groupTarget.id).length : 0;
+	// One source per type, shared by the widgets that listen to it.
+	const placed = widgets.map((type, i) => {
+		const source = widgetSource(type, keypoint, nodesByType);
+		const sourceKey = `source.${source.type}`;
+		if (!plan.some((p) => p.key === sourceKey)) {
+			plan.push({ key: sourceKey, type: source.type, role: "trigger", lane: 0 });
+		}
+		const widget: PlannedNode = {
+			key: `widget.${type}`,
+			type,
+			role: "dashboard",
+			lane: 0,
+			properties: { order: offset + i + 1 },
+		};
+		link(widget, "group", groupTarget);
+		plan.push(widget);
+		const from = plan.find((p) => p.key === sourceKey)!;
+		from.wires = [...(from.wires ?? []), { port: source.port, to: widget.key }];
+		return { type, key: widget.key, source };
+	});
+
+	const types = [...new Set(["ui-base", "ui-page", "ui-group", ...plan.map((p) => p.type)])];
+	return {
+		existing,
+		reused,
+		plan,
+		widgets: placed,
+		page: { name: pageName, path },
+		missingNodes: types.filter((t) => !nodesByType[t]),
+	};
+}
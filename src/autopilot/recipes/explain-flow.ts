@@ -0,0 +1,426 @@
+/**
+ * The reverse of suggest-flow: describe what an existing tab does, one sentence per
+ * trigger -> action chain ("When a drop keypoint is entered, sends group progress to OSC
+ * /group/progress at 127.0.0.1:8000.").
+ *
+ * Chains start at nodes without incoming wires and end at nodes without outgoing wires.
+ * Core and Time-Line nodes get specific wording; anything else falls back to its name, the
+ * catalog's `outputLabels` and the first sentence of its help text.
+ */
+
+import { analyzeFunctionNode, type FlowNodeRef, nodeRef } from "../flows/index.js";
+import { dataNotes, keypointLabel, TL_VALUE_LABELS } from "./tl-payloads.js";
+
+export type ExplainOptions = {
+	nodesByType?: Record<string, any>;
+	// Stop after this many chains (default 100).
+	maxChains?: number;
+};
+
+export type FlowChain = {
+	text: string;
+	trigger: FlowNodeRef & { port: number; output: string | null };
+	sink: FlowNodeRef;
+	path: string[];
+	steps: Array<FlowNodeRef & { does: string | null }>;
+	dataNotes: Record<string, string[]> | null;
+};
+
+// What is known about the message at a point in the chain.
+type ChainState = {
+	when: string;
+	value: string;
+	topic: string | null;
+	does: string[];
+};
+
+const NOT_IN_CHAINS = new Set(["tab", "subflow", "group", "comment", "junction"]);
+
+const SWITCH_OPS: Record<string, string> = {
+	eq: "==",
+	neq: "!=",
+	lt: "<",
+	lte: "<=",
+	gt: ">",
+	gte: ">=",
+	cont: "contains",
+	regex: "matches",
+};
+
+function displayName(node: any, nodesByType: Record<string, any>) {
+	const palette = nodesByType[node.type]?.paletteLabel;
+	return node.name || node.label || (typeof palette === "string" ? palette : node.type);
+}
+
+// Static output label from the catalog, if the node declares one.
+function outputLabel(catalogNode: any, port: number): string | null {
+	const labels = catalogNode?.outputLabels;
+	if (Array.isArray(labels) && typeof labels[port] === "string") return labels[port];
+	if (typeof labels === "string" && port === 0) return labels;
+	return null;
+}
+
+// First sentence of the catalog help text.
+export function helpSummary(catalogNode: any) {
+	const text = String(catalogNode?.help?.text ?? "")
+		.replace(/\s+/g, " ")
+		.trim();
+	if (!text) return null;
+	const sentence = text.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? text;
+	return sentence.length > 200 ? `${sentence.slice(0, 197)}...` : sentence;
+}
+
+function msgPath(prop: string, type: string | undefined) {
+	return `${type && type !== "msg" ? type : "msg"}.${prop}`;
+}
+
+function literal(value: unknown, type: string | undefined) {
+	if (type === "str") return JSON.stringify(String(value ?? ""));
+	if (type === "msg" || type === "flow" || type === "global") {
+		const path = msgPath(String(value), type);
+		return TL_VALUE_LABELS[path] ?? path;
+	}
+	if (type === "env") return `env ${value}`;
+	if (type === "jsonata") return `the expression ${value}`;
+	if (type === "date") return "the current time";
+	return String(value);
+}
+
+function switchCondition(node: any, port: number) {
+	const rule = Array.isArray(node.rules) ? node.rules[port] : null;
+	if (!rule) return null;
+	const subject = msgPath(String(node.property ?? "payload"), node.propertyType);
+	if (rule.t === "else") return "otherwise";
+	if (rule.t === "btwn") {
+		return `${subject} is between ${literal(rule.v, rule.vt)} and ${literal(rule.v2, rule.v2t)}`;
+	}
+	if (rule.t === "true" || rule.t === "false" || rule.t === "null") {
+		return `${subject} is ${rule.t}`;
+	}
+	if (rule.t === "nnull") return `${subject} is not null`;
+	if (rule.t === "empty" || rule.t === "nempty") {
+		return `${subject} is ${rule.t === "empty" ? "" : "not "}empty`;
+	}
+	const op = SWITCH_OPS[rule.t] ?? rule.t;
+	return `${subject} ${op} ${literal(rule.v, rule.vt)}`;
+}
+
+// Keypoint edge selected by a switch on msg.payload.event, if that is all it checks.
+function keypointEdge(node: any, port: number): "enter" | "exit" | null {
+	if (node?.type !== "switch" || node.property !== "payload.event") return null;
+	const rule = Array.isArray(node.rules) ? node.rules[port] : null;
+	if (rule?.t !== "eq" || (rule.v !== "enter" && rule.v !== "exit")) return null;
+	return rule.v;
+}
+
+function describeTrigger(
+	node: any,
+	port: number,
+	next: { node: any; port: number } | null,
+	nodesByType: Record<string, any>,
+): { when: string; value: string; consumesNext: boolean } {
+	const type = String(node.type);
+	const label = outputLabel(nodesByType[type], port);
+
+	if (type.startsWith("tl-keypoint")) {
+		const stream = label ? /stream/i.test(label) : port === 1;
+		const keypoint = keypointLabel(type);
+		if (stream) {
+			return {
+				when: `While ${keypoint} is active`,
+				value: "the keypoint snapshot",
+				consumesNext: false,
+			};
+		}
+		const edge = next ? keypointEdge(next.node, next.port) : null;
+		return {
+			when: edge
+				? `When ${keypoint} is ${edge === "enter" ? "entered" : "exited"}`
+				: `When ${keypoint} is entered or exited`,
+			value: "the keypoint event",
+			consumesNext: !!edge,
+		};
+	}
+	if (type === "tl-beat")
+		return { when: "On every beat", value: "the beat", consumesNext: false };
+	if (type === "tl-current-track") {
+		const stream = label ? /stream/i.test(label) : port === 1;
+		return stream
+			? { when: "While a track plays", value: "the track snapshot", consumesNext: false }
+			: {
+					when: "When the current track changes",
+					value: "the track info",
+					consumesNext: false,
+				};
+	}
+	if (type === "inject") {
+		const every = Number(node.repeat) > 0 ? ` every ${node.repeat}s` : "";
+		const once = node.once ? " (and once on deploy)" : "";
+		return {
+			when: `When "${displayName(node, nodesByType)}" fires${every}${once}`,
+			value: "the injected message",
+			consumesNext: false,
+		};
+	}
+	if (type === "mqtt in") {
+		return {
+			when: `When a message arrives on MQTT topic "${node.topic}"`,
+			value: "the MQTT message",
+			consumesNext: false,
+		};
+	}
+	if (type === "http in") {
+		return {
+			when: `When an HTTP ${String(node.method || "get").toUpperCase()} request hits ${node.url}`,
+			value: "the request",
+			consumesNext: false,
+		};
+	}
+	if (type === "link in") {
+		return {
+			when: "When a linked flow sends a message",
+			value: "the message",
+			consumesNext: false,
+		};
+	}
+	const via = label ? ` on "${label}"` : "";
+	return {
+		when: `When "${displayName(node, nodesByType)}" (${type}) emits${via}`,
+		value: "the message",
+		consumesNext: false,
+	};
+}
+
+// Update the state for a node in the middle of a chain; returns what the node does.
+function describeStep(
+	node: any,
+	port: number,
+	state: ChainState,
+	nodesByType: Record<string, any>,
+): string | null {
+	const type = String(node.type);
+	const name = displayName(node, nodesByType);
+
+	if (type === "change") {
+		const does: string[] = [];
+		for (const rule of Array.isArray(node.rules) ? node.rules : []) {
+			const target = msgPath(String(rule.p), rule.pt);
+			if (rule.t === "set" && target === "msg.payload") {
+				state.value = literal(rule.to, rule.tot);
+			} else if (rule.t === "set" && target === "msg.topic" && rule.tot === "str") {
+				state.topic = String(rule.to);
+			} else if (rule.t === "set") {
+				does.push(`sets ${target} to ${literal(rule.to, rule.tot)}`);
+			} else if (rule.t === "delete") {
+				does.push(`deletes ${target}`);
+			} else if (rule.t === "move") {
+				does.push(`moves ${target} to ${msgPath(String(rule.to), rule.tot)}`);
+			} else if (rule.t === "change") {
+				does.push(`replaces ${literal(rule.from, rule.fromt)} in ${target}`);
+			}
+		}
+		return does.length ? does.join(", ") : null;
+	}
+	if (type === "switch") {
+		const condition = switchCondition(node, port);
+		return condition
+			? `only ${condition === "otherwise" ? "otherwise" : `if ${condition}`}`
+			: null;
+	}
+	if (type === "range") {
+		const clamp =
+			node.action === "clamp" ? ", clamped" : node.action === "roll" ? ", wrapped" : "";
+		state.value = `${state.value} scaled from ${node.minin}..${node.maxin} to ${node.minout}..${node.maxout}${clamp}`;
+		return null;
+	}
+	if (type === "tl-bpm-debounce") {
+		return `quantizes to the ${node.division || "1/4"} beat grid`;
+	}
+	if (type === "delay") {
+		const units = node.timeoutUnits || node.rateUnits || "";
+		if (node.pauseType === "delay") return `waits ${node.timeout} ${units}`;
+		if (node.pauseType === "rate" || node.pauseType === "timed") {
+			return `limits to ${node.rate} message(s) per ${node.nbRateUnits || 1} ${node.rateUnits}`;
+		}
+		return `delays ("${name}")`;
+	}
+	if (type === "function") {
+		const analysis = analyzeFunctionNode(node);
+		// A function that rewrites the payload is part of the value ("BPM via "scale"").
+		if (analysis.msg.replaced || analysis.msg.writes.includes("msg.payload")) {
+			state.value = `${state.value} via "${name}"`;
+			return null;
+		}
+		return `runs function "${name}"`;
+	}
+	if (type === "trigger") {
+		return `sends ${literal(node.op1, node.op1type)} then ${literal(node.op2, node.op2type)} after ${node.duration} ${node.units || "ms"}`;
+	}
+	if (type === "template") {
+		state.value = `the "${name}" template`;
+		return null;
+	}
+	if (type === "json") {
+		state.value = `${state.value} (converted by JSON)`;
+		return null;
+	}
+	return `passes through "${name}" (${type})`;
+}
+
+function describeSink(
+	node: any,
+	state: ChainState,
+	flows: Map<string, any>,
+	nodesByType: Record<string, any>,
+) {
+	const type = String(node.type);
+	const value = state.value;
+
+	if (type === "tl-output") {
+		const server = flows.get(String(node.server));
+		if (server?.protocol === "midi") {
+			return `sends ${value} as MIDI (port ${server.midiPort ?? 0})`;
+		}
+		const address = node.address || state.topic || "the address in msg.topic";
+		const target = server ? ` at ${server.host}:${server.port}` : " (no server configured)";
+		return `sends ${value} to OSC ${address}${target}`;
+	}
+	if (type === "mqtt out") {
+		const broker = flows.get(String(node.broker));
+		const topic = node.topic || state.topic || "msg.topic";
+		const on = broker ? ` on ${broker.broker}:${broker.port}` : "";
+		return `publishes ${value} to MQTT topic ${topic}${on}`;
+	}
+	if (type === "http request") {
+		const method = node.method === "use" ? "" : `${node.method || "GET"} `;
+		return `sends ${value} in an HTTP ${method}request to ${node.url || "msg.url"}`;
+	}
+	if (type === "websocket out") {
+		const client = flows.get(String(node.client || node.server));
+		return `sends ${value} over WebSocket ${client?.path ?? ""}`.trimEnd();
+	}
+	if (type === "udp out") return `sends ${value} over UDP to ${node.addr}:${node.port}`;
+	if (type === "debug") return `logs ${value} to the debug sidebar`;
+	if (type === "link out") {
+		return node.mode === "return"
+			? `returns ${value} to the link call`
+			: `passes ${value} to linked flows`;
+	}
+	if (type.startsWith("ui-")) {
+		return `shows ${value} in the dashboard widget "${displayName(node, nodesByType)}"`;
+	}
+	return `hands ${value} to "${displayName(node, nodesByType)}" (${type})`;
+}
+
+function sentence(state: ChainState, sink: string | null) {
+	const parts = [...state.does, ...(sink ? [sink] : [])];
+	const body =
+		parts.length > 1
+			? `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`
+			: parts[0];
+	return `${state.when}, ${body ?? "does nothing"}.`;
+}
+
+/**
+ * Describe every trigger -> action chain on a tab.
+ */
+export function explainFlow(
+	flows: any[],
+	tab: string,
+	{ nodesByType = {}, maxChains = 100 }: ExplainOptions = {},
+) {
+	const all = Array.isArray(flows) ? flows : [];
+	const tabNode = all.find((n) => n?.type === "tab" && (n.id === tab || n.label === tab));
+	if (!tabNode) throw new Error(`Unknown tab: ${tab}`);
+
+	const byId = new Map<string, any>(all.map((n) => [String(n?.id), n]));
+	const nodes = all.filter((n) => n?.z === tabNode.id && !NOT_IN_CHAINS.has(n.type));
+	const outgoing = (n: any): Array<{ node: any; port: number }> =>
+		(Array.isArray(n.wires) ? n.wires : []).flatMap((targets: unknown, port: number) =>
+			(Array.isArray(targets) ? targets : [])
+				.map((id) => byId.get(String(id)))
+				.filter(Boolean)
+				.map((node) => ({ node, port })),
+		);
+	const hasIncoming = new Set<string>();
+	for (const n of nodes) for (const { node } of outgoing(n)) hasIncoming.add(node.id);
+
+	const chains: FlowChain[] = [];
+	let truncated = false;
+	const walk = (source: any, sourcePort: number, path: Array<{ node: any; port: number }>) => {
+		if (chains.length >= maxChains) {
+			truncated = true;
+			return;
+		}
+		// Loops end the chain at the node that would repeat.
+		const last = path[path.length - 1];
+		const onward = outgoing(last.node).filter(
+			(o) => !path.some((p) => p.node.id === o.node.id),
+		);
+		if (path.length > 1 && !onward.length) {
+			chains.push(buildChain(source, sourcePort, path));
+			return;
+		}
+		for (const o of onward) walk(source, sourcePort, [...path, o]);
+	};
+
+	const buildChain = (
+		source: any,
+		sourcePort: number,
+		path: Array<{ node: any; port: number }>,
+	): FlowChain => {
+		// path[i].port is the output of path[i - 1] that led to path[i].
+		const first = path[1] ?? null;
+		const trigger = describeTrigger(source, sourcePort, first, nodesByType);
+		const state: ChainState = {
+			when: trigger.when,
+			value: trigger.value,
+			topic: null,
+			does: [],
+		};
+		const steps: FlowChain["steps"] = [{ ...nodeRef(source), does: null }];
+		const sink = path[path.length - 1].node;
+
+		path.slice(1, -1).forEach((p, i) => {
+			const outPort = path[i + 2].port;
+			const does =
+				i === 0 && trigger.consumesNext
+					? null
+					: describeStep(p.node, outPort, state, nodesByType);
+			if (does) state.does.push(does);
+			steps.push({ ...nodeRef(p.node), does });
+		});
+		const sinkDoes = describeSink(sink, state, byId, nodesByType);
+		steps.push({ ...nodeRef(sink), does: sinkDoes });
+
+		return {
+			text: sentence(state, sinkDoes),
+			trigger: {
+				...nodeRef(source),
+				port: sourcePort,
+				output: outputLabel(nodesByType[source.type], sourcePort),
+			},
+			sink: nodeRef(sink),
+			path: path.map((p) => p.node.id),
+			steps,
+			dataNotes: dataNotes(String(source.type), nodesByType[source.type]),
+		};
+	};
+
+	const sources = nodes.filter((n) => !hasIncoming.has(n.id) && outgoing(n).length);
+	for (const source of sources) {
+		for (const o of outgoing(source)) walk(source, o.port, [{ node: source, port: -1 }, o]);
+	}
+
+	const inChains = new Set(chains.flatMap((c) => c.path));
+	const types = [...new Set(nodes.filter((n) => inChains.has(n.id)).map((n) => String(n.type)))];
+
+	return {
+		tab: { id: tabNode.id, label: tabNode.label ?? null },
+		chains,
+		truncated,
+		// Wired nodes that are only reachable from a loop, and nodes with no wires at all.
+		unexplained: nodes.filter((n) => !inChains.has(n.id)).map(nodeRef),
+		nodeTypes: Object.fromEntries(types.map((t) => [t, helpSummary(nodesByType[t])])),
+	};
+}
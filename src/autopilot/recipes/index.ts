@@ -0,0 +1,81 @@
+export {
+	type ActionProtocol,
+	type ActionSink,
+	actionSummary,
+	configKey,
+	PROTOCOL_NODE_TYPES,
+	planActionSink,
+	protocolAvailability,
+} from "./action-sinks.js";
+export {
+	type BuildFlowOptions,
+	buildFlowNodes,
+	outputPortByLabel,
+	type PlannedNode,
+} from "./build-flow.js";
+export {
+	type DashboardOptions,
+	listDashboardNodes,
+	planDashboard,
+	TL_WIDGET_TYPES,
+	type TlWidgetType,
+} from "./dashboard.js";
+export {
+	type ExplainOptions,
+	explainFlow,
+	type FlowChain,
+	helpSummary,
+} from "./explain-flow.js";
+export {
+	type ActionIntent,
+	type IntentClause,
+	keypointIdToNodeType,
+	type MidiAction,
+	type ParsedIntent,
+	type ParseIntentOptions,
+	parseIntent,
+	type TextSpan,
+	type TriggerIntent,
+} from "./intent-parser.js";
+export {
+	buildKeypointTaxonomy,
+	type KeypointType,
+	keypointRules,
+} from "./keypoint-taxonomy.js";
+export { type MidiMessagePlan, noteNumber, planMidiMessage } from "./midi.js";
+export { planClause } from "./plan-clause.js";
+export {
+	matchRecipe,
+	type RecipeDocument,
+	type RecipeIssue,
+	RecipeSchema,
+	validateRecipe,
+} from "./recipe-schema.js";
+export {
+	createRecipeRegistry,
+	RECIPE_KV_PREFIX,
+	RecipeRegistry,
+	type RecipeRegistryConfig,
+} from "./registry.js";
+export {
+	buildTrack,
+	divisionBeats,
+	type SimKeypoint,
+	type SimulateOptions,
+	type SinkDelivery,
+	simulateFlow,
+} from "./simulate-flow.js";
+export {
+	dataNotes,
+	keypointLabel,
+	type SimulatedTrack,
+	TL_VALUE_LABELS,
+	type TrackKeypoint,
+} from "./tl-payloads.js";
+export {
+	describeShaping,
+	planValueShaping,
+	type ValueCurve,
+	type ValueShaping,
+	type ValueShapingPlan,
+} from "./value-shaping.js";
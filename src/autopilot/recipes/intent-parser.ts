@@ -0,0 +1,565 @@
+/**
+ * Parse a natural-language automation intent into typed trigger -> action clauses.
+ *
+ * "on drop send /a to 10.0.0.5:9000 and on breakdown exit send MIDI note 60" becomes two
+ * clauses. Actions go out over OSC or MIDI (tl-output), MQTT, HTTP, WebSocket or raw UDP.
+ * Each recognised phrase claims its span of the text; whatever is left over (apart from
+ * filler words) is reported as `unparsed` with its position, so a client can ask a follow-up
+ * question instead of silently getting a default.
+ */
+
+import { buildKeypointTaxonomy, type KeypointType, keypointRules } from "./keypoint-taxonomy.js";
+import { noteNumber } from "./midi.js";
+import type { ValueCurve, ValueShaping } from "./value-shaping.js";
+
+export type TextSpan = { text: string; start: number; end: number };
+
+export type TriggerIntent = {
+	nodeType: string;
+	// Keypoint ID (e.g. "drop", "pre-drop") for tl-keypoint-* triggers.
+	keypoint: string | null;
+	mode: "event" | "stream";
+	event: "enter" | "exit" | null;
+};
+
+export type ValueSource = "group-progress" | "keypoint-progress" | "bpm" | "beat" | "payload";
+
+export type OscAction = { protocol: "osc"; host: string; port: number; address: string };
+
+export type MidiAction = {
+	protocol: "midi";
+	message: "note" | "cc" | "program";
+	// 1..16
+	channel: number;
+	// Set for the matching `message`; note numbers use C4 = 60.
+	note: number | null;
+	controller: number | null;
+	program: number | null;
+	// Note velocity or fixed CC value when there is no continuous value to scale.
+	velocity: number;
+	// Note-on on enter and note-off on exit instead of a single note-on.
+	gate: boolean;
+	// 14-bit CC: MSB on `controller`, LSB on `controller + 32`.
+	highResolution: boolean;
+};
+
+export type MqttAction = { protocol: "mqtt"; broker: string; port: number; topic: string };
+
+export type HttpAction = {
+	protocol: "http";
+	method: "GET" | "POST" | "PUT" | "PATCH";
+	url: string;
+};
+
+export type WebSocketAction = { protocol: "websocket"; url: string };
+
+export type UdpAction = { protocol: "udp"; host: string; port: number };
+
+export type ActionIntent =
+	| OscAction
+	| MidiAction
+	| MqttAction
+	| HttpAction
+	| WebSocketAction
+	| UdpAction;
+
+export type IntentClause = {
+	text: string;
+	start: number;
+	end: number;
+	trigger: TriggerIntent;
+	action: ActionIntent;
+	value: ValueSource;
+	// Rescale/invert/curve/quantize the value; null when none was asked for.
+	shaping: ValueShaping | null;
+	throttle: { division: string } | null;
+	widgets: string[];
+	// Fields that were not stated and fell back to a default (e.g. "action.host").
+	defaulted: string[];
+	// What each recognised phrase was read as.
+	matches: Array<TextSpan & { as: string }>;
+};
+
+export type ParsedIntent = { clauses: IntentClause[]; unparsed: TextSpan[] };
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 8000;
+const DEFAULT_MQTT_PORT = 1883;
+
+// Not a keypoint node, but selected the same way.
+const CURRENT_TRACK_RULE = { re: /\bcurrent\s+(?:track|song)\b/gi, id: "current-track" };
+
+export type ParseIntentOptions = {
+	// Keypoint vocabulary (see buildKeypointTaxonomy); defaults to the built-in keypoints.
+	keypointTypes?: KeypointType[];
+};
+
+const WIDGET_RULES: Array<{ re: RegExp; node: string }> = [
+	{ re: /\b(?:song\s+details|now\s+playing|playhead)\b/gi, node: "ui-tl-song-details" },
+	{
+		re: /\b(?:keypoint\s+details|current\s+keypoint\s+widget)\b/gi,
+		node: "ui-tl-keypoint-details",
+	},
+	{
+		re: /\b(?:upcoming\s+keypoints|next\s+keypoints\s+widget)\b/gi,
+		node: "ui-tl-upcoming-keypoints",
+	},
+];
+
+const VALUE_RULES: Array<{ re: RegExp; source: ValueSource }> = [
+	{ re: /\bgroup\s+progress\b/gi, source: "group-progress" },
+	{ re: /\b(?:keypoint\s+)?progress\b/gi, source: "keypoint-progress" },
+	{ re: /\bbpm\b/gi, source: "bpm" },
+];
+
+const ENTER_RE =
+	/\b(?:on\s+start|when\s+it\s+(?:starts|begins)|enter(?:s|ing)?|starts?|begins?)\b/gi;
+const EXIT_RE = /\b(?:on\s+end|when\s+it\s+ends|exit(?:s|ing)?|leav(?:e|es|ing)|ends?)\b/gi;
+const CONTINUOUS_RE =
+	/\b(?:while|continuous(?:ly)?|stream(?:ing|s)?|every\s+frame|animate[ds]?)\b/gi;
+const THROTTLE_RE = /\b(?:debounce[ds]?|throttle[ds]?|quantiz(?:e|ed)|grid|ticks?)\b/gi;
+// 1/8, 1/4, 1/2 or "1 beat"/"1 bar"; digits inside IP addresses don't count.
+const DIVISION_RE = /(?<![\d./])(1\/8|1\/4|1\/2|1(?=\s+(?:beat|bar)\b))(?![\d./])/g;
+const URL_RE = /\b(https?|wss?):\/\/[^\s"'<>]+?(?=[.,;)]*(?:\s|$))/gi;
+const HOST_RE = /\b(\d{1,3}(?:\.\d{1,3}){3})\b|\blocalhost\b/gi;
+const PORT_RE = /\bport\s+(\d{2,5})\b|(?<=\d|localhost):(\d{2,5})\b/gi;
+// OSC addresses start after whitespace/quotes, so the "/4" of "1/4" is not an address.
+const ADDRESS_RE = /(?<![\w/])\/[A-Za-z0-9_][A-Za-z0-9_/\-.]*(?<![.\-/])/g;
+// Path right after a port ("10.0.0.5:8080/hook"), used for HTTP/WebSocket URLs without a scheme.
+const PORT_PATH_RE = /(?<=:\d{2,5})\/[A-Za-z0-9_][A-Za-z0-9_/\-.]*(?<![.\-/])/g;
+const MIDI_RE = /\bmidi\b/gi;
+// "note 60", "note C#4" or a bare upper-case note name ("F#2").
+const MIDI_NOTE_RE =
+	/\bnote\s+(\d{1,3})\b|\bnote\s+([A-Ga-g][#b]?(?:-1|\d))\b|\b([A-G][#b]?(?:-1|\d))\b/g;
+const MIDI_GATE_RE = /\bnote[\s-]?on\s*(?:\/|and)\s*(?:note[\s-]?)?off\b|\b(?:hold|gate)\b/gi;
+const MIDI_CC_RE = /\b(?:cc|control(?:ler)?(?:\s+change)?)\s*#?\s*(\d{1,3})\b/gi;
+const MIDI_14BIT_RE = /\b(?:14[\s-]?bit|high[\s-]?res(?:olution)?)\b/gi;
+const MIDI_PROGRAM_RE = /\b(?:program(?:\s+change)?|pc)\s*#?\s*(\d{1,3})\b/gi;
+const MIDI_CHANNEL_RE = /\b(?:channel|ch\.?)\s*(\d{1,2})\b/gi;
+const MIDI_VELOCITY_RE = /\bvelocity\s+(\d{1,3})\b/gi;
+const BEAT_RE = /\b(?:every\s+)?beats?\b/gi;
+const OSC_RE = /\bosc\b/gi;
+const MQTT_RE = /\bmqtt(?:\s+broker)?\b/gi;
+// MQTT topics have no leading slash and may end in wildcards ("stage/lights", "fx/#").
+const MQTT_TOPIC_RE = /\btopic\s+["']?([\w$#+/-]+(?:\.[\w$#+/-]+)*)["']?/gi;
+const HTTP_RE = /\b(?:http(?:\s+request)?|webhook)\b/gi;
+const HTTP_METHOD_RE = /\b(get|post|put|patch)\b/gi;
+const WEBSOCKET_RE = /\bweb\s?sockets?\b|\bws\b/gi;
+const UDP_RE = /\b(?:raw\s+)?udp\b/gi;
+
+// "0..255", "to 0-100", "between 0 and 127".
+const SHAPE_RANGE_RE =
+	/(?<![\d.])(-?\d+(?:\.\d+)?)\s*\.\.\s*(-?\d+(?:\.\d+)?)(?![\d.])|\b(?:to|into)\s+(-?\d+(?:\.\d+)?)\s*-\s*(-?\d+(?:\.\d+)?)\b|\bbetween\s+(-?\d+(?:\.\d+)?)\s+and\s+(-?\d+(?:\.\d+)?)\b/gi;
+const SHAPE_NAMED_RANGE_RE = /\b(dmx|percent(?:age)?)\b/gi;
+const SHAPE_INVERT_RE = /\b(?:invert(?:ed|s)?|revers(?:e|ed)|flip(?:ped)?)\b/gi;
+const SHAPE_CURVE_RULES: Array<{ re: RegExp; curve: ValueCurve }> = [
+	{ re: /\bease[\s-]?in[\s-]?out\b|\bsmooth(?:step|ed|ly)?\b/gi, curve: "ease-in-out" },
+	{ re: /\bease[\s-]?in\b/gi, curve: "ease-in" },
+	{ re: /\bease[\s-]?out\b/gi, curve: "ease-out" },
+	{ re: /\bexp(?:onential(?:ly)?)?\b/gi, curve: "exponential" },
+	{ re: /\blog(?:arithmic(?:ally)?)?\b/gi, curve: "logarithmic" },
+	{ re: /\blinear(?:ly)?\b/gi, curve: "linear" },
+];
+// "8 steps", "quantized to 4 levels"; must run before THROTTLE_RE claims "quantize".
+const SHAPE_STEPS_RE =
+	/\b(?:(?:quantiz(?:e|ed)|stepped|snap(?:ped)?)\s+(?:(?:in)?to\s+)?)?(\d{1,3})\s+(?:steps|levels)\b/gi;
+const SHAPE_CLAMP_RE = /\b(un)?clamp(?:ed|s)?\b|\bno\s+clamp(?:ing)?\b/gi;
+
+const CLAUSE_BOUNDARY_RE =
+	/;|\.(?=\s|$)|,?\s+(?:and|then|also)\s+(?=(?:on|when|whenever|while|during|after)\b)|,\s+(?=(?:on|when|whenever|while|during|after)\b)/gi;
+
+// Filler that never needs to be reported as unparsed.
+const FILLER = new Set(
+	"a an and also as at by display do during for from go goes in into is it its map maps me of on out output outputs over please publish publishes send sends sending set show the then this to too value values via when whenever with".split(
+		" ",
+	),
+);
+
+class ClauseScanner {
+	private claimed: Array<[number, number]> = [];
+	matches: Array<TextSpan & { as: string }> = [];
+
+	constructor(
+		private text: string,
+		private offset: number,
+	) {}
+
+	private free(start: number, end: number) {
+		return this.claimed.every(([s, e]) => end <= s || start >= e);
+	}
+
+	// First unclaimed match of `re`; claims its span.
+	take(re: RegExp, as: string) {
+		for (const m of this.text.matchAll(re)) {
+			const start = m.index ?? 0;
+			const end = start + m[0].length;
+			if (!this.free(start, end)) continue;
+			this.claimed.push([start, end]);
+			this.matches.push({
+				text: m[0],
+				start: start + this.offset,
+				end: end + this.offset,
+				as,
+			});
+			return m;
+		}
+		return null;
+	}
+
+	// Every unclaimed match of `re`.
+	takeAll(re: RegExp, as: string) {
+		const found: RegExpMatchArray[] = [];
+		for (let m = this.take(re, as); m; m = this.take(re, as)) found.push(m);
+		return found;
+	}
+
+	unparsed(): TextSpan[] {
+		const out: TextSpan[] = [];
+		const claimed = [...this.claimed].sort((a, b) => a[0] - b[0]);
+		let cursor = 0;
+		const flush = (end: number) => {
+			const chunk = this.text.slice(cursor, end);
+			for (const m of chunk.matchAll(/[^\s,.;:!?()"']+(?:\s+[^\s,.;:!?()"']+)*/g)) {
+				// Trim filler words from both ends ("and blink" -> "blink").
+				const words = [...m[0].matchAll(/\S+/g)].filter(
+					(w) => !FILLER.has(w[0].toLowerCase()),
+				);
+				if (!words.length) continue;
+				const first = words[0];
+				const last = words[words.length - 1];
+				const from = first.index ?? 0;
+				const to = (last.index ?? 0) + last[0].length;
+				const start = cursor + (m.index ?? 0) + from + this.offset;
+				out.push({ text: m[0].slice(from, to), start, end: start + (to - from) });
+			}
+		};
+		for (const [s, e] of claimed) {
+			flush(s);
+			cursor = Math.max(cursor, e);
+		}
+		flush(this.text.length);
+		return out;
+	}
+}
+
+export function keypointIdToNodeType(id: string | null) {
+	if (!id) return null;
+	if (id === "current") return "tl-keypoint-current";
+	if (id === "next") return "tl-keypoint-next";
+	if (id === "current-track") return "tl-current-track";
+	return `tl-keypoint-${id}`;
+}
+
+function defaultAddress(value: ValueSource) {
+	if (value === "group-progress") return "/group/progress";
+	if (value === "keypoint-progress") return "/keypoint/progress";
+	if (value === "bpm") return "/bpm";
+	if (value === "beat") return "/beat";
+	return "/tl";
+}
+
+// Host/port of an action that has them, so the next clause of the same protocol can reuse it.
+function endpointOf(action: ActionIntent | undefined) {
+	if (action?.protocol === "osc" || action?.protocol === "udp") {
+		return { host: action.host, port: action.port };
+	}
+	if (action?.protocol === "mqtt") return { host: action.broker, port: action.port };
+	return null;
+}
+
+function parseShaping(scan: ClauseScanner): ValueShaping | null {
+	let to: [number, number] | null = null;
+	const rangeMatch = scan.take(SHAPE_RANGE_RE, "value.range");
+	const named = scan.take(SHAPE_NAMED_RANGE_RE, "value.range");
+	if (rangeMatch) {
+		const [, a, b, c, d, e, f] = rangeMatch;
+		to = [Number(a ?? c ?? e), Number(b ?? d ?? f)];
+	} else if (named) {
+		to = named[1].toLowerCase() === "dmx" ? [0, 255] : [0, 100];
+	}
+	const invert = !!scan.take(SHAPE_INVERT_RE, "value.invert");
+	let curve: ValueCurve | null = null;
+	for (const rule of SHAPE_CURVE_RULES) {
+		if (scan.take(rule.re, `value.curve:${rule.curve}`)) {
+			curve = rule.curve;
+			break;
+		}
+	}
+	const stepsMatch = scan.take(SHAPE_STEPS_RE, "value.steps");
+	const steps = stepsMatch ? Number.parseInt(stepsMatch[1], 10) : null;
+	const clampMatch = scan.take(SHAPE_CLAMP_RE, "value.clamp");
+
+	if (!to && !invert && !curve && !steps && !clampMatch) return null;
+	return {
+		to,
+		clamp: !clampMatch || !/^(?:un|no)/i.test(clampMatch[0]),
+		invert,
+		curve: curve ?? "linear",
+		steps: steps !== null && steps >= 2 ? steps : null,
+	};
+}
+
+function clampInt(text: string | undefined, min: number, max: number) {
+	const n = Number.parseInt(text ?? "", 10);
+	return Number.isNaN(n) || n < min || n > max ? null : n;
+}
+
+function parseMidiAction(
+	m: Record<
+		"ccMatch" | "programMatch" | "noteMatch" | "channelMatch" | "velocityMatch",
+		RegExpMatchArray | null
+	>,
+	{
+		mode,
+		highResolution,
+		defaulted,
+	}: { mode: TriggerIntent["mode"]; highResolution: boolean; defaulted: string[] },
+): MidiAction {
+	const noteText = m.noteMatch?.[1] ?? m.noteMatch?.[2] ?? m.noteMatch?.[3];
+	const note = noteText
+		? /^\d/.test(noteText)
+			? clampInt(noteText, 0, 127)
+			: noteNumber(noteText)
+		: null;
+	const controller = clampInt(m.ccMatch?.[1], 0, 127);
+	const program = clampInt(m.programMatch?.[1], 0, 127);
+
+	let channel = clampInt(m.channelMatch?.[1], 1, 16);
+	if (channel === null) {
+		channel = 1;
+		defaulted.push("action.channel");
+	}
+	const velocity = clampInt(m.velocityMatch?.[1], 0, 127) ?? 127;
+	const base = {
+		protocol: "midi" as const,
+		channel,
+		note: null,
+		controller: null,
+		program: null,
+		velocity,
+		gate: false,
+		highResolution: false,
+	};
+
+	if (program !== null) return { ...base, message: "program", program };
+	// Continuous values without a stated note drive a controller (CC 1, mod wheel, by default).
+	if (controller !== null || (note === null && mode === "stream")) {
+		if (controller === null) defaulted.push("action.controller");
+		const cc = controller ?? 1;
+		// The LSB of a 14-bit pair lives 32 controllers up, so only CC 0-31 can be 14-bit.
+		return {
+			...base,
+			message: "cc",
+			controller: cc,
+			highResolution: highResolution && cc < 32,
+		};
+	}
+	if (note === null) defaulted.push("action.note");
+	return { ...base, message: "note", note: note ?? 60 };
+}
+
+function splitClauses(intent: string) {
+	const clauses: Array<{ text: string; start: number }> = [];
+	let start = 0;
+	const push = (end: number) => {
+		const raw = intent.slice(start, end);
+		const lead = raw.length - raw.trimStart().length;
+		const text = raw.trim();
+		if (text) clauses.push({ text, start: start + lead });
+	};
+	for (const m of intent.matchAll(CLAUSE_BOUNDARY_RE)) {
+		push(m.index ?? 0);
+		start = (m.index ?? 0) + m[0].length;
+	}
+	push(intent.length);
+	return clauses;
+}
+
+function parseClause(
+	text: string,
+	offset: number,
+	previous: IntentClause | null,
+	keypoints: Array<{ re: RegExp; id: string }>,
+): { clause: IntentClause; unparsed: TextSpan[] } {
+	const scan = new ClauseScanner(text, offset);
+	const defaulted: string[] = [];
+
+	const widgets = WIDGET_RULES.filter((r) => scan.take(r.re, `widget:${r.node}`)).map(
+		(r) => r.node,
+	);
+
+	// Action details first: URLs, IPs and addresses contain digits and words the other rules want.
+	const urlMatch = scan.take(URL_RE, "action.url");
+	const hostMatch = scan.take(HOST_RE, "action.host");
+	const portMatch = scan.take(PORT_RE, "action.port");
+	const topicMatch = scan.take(MQTT_TOPIC_RE, "action.topic");
+	const addressMatch = scan.take(ADDRESS_RE, "action.address");
+	const midiWord = !!scan.take(MIDI_RE, "action.protocol");
+	const ccMatch = scan.take(MIDI_CC_RE, "action.controller");
+	const programMatch = scan.take(MIDI_PROGRAM_RE, "action.program");
+	// CC numbers and program changes only exist in MIDI.
+	const midi = midiWord || !!ccMatch || !!programMatch;
+	const gateWord = midi && !!scan.take(MIDI_GATE_RE, "action.gate");
+	const noteMatch = midi ? scan.take(MIDI_NOTE_RE, "action.note") : null;
+	const channelMatch = midi ? scan.take(MIDI_CHANNEL_RE, "action.channel") : null;
+	const velocityMatch = midi ? scan.take(MIDI_VELOCITY_RE, "action.velocity") : null;
+	const highResolution = midi && !!scan.take(MIDI_14BIT_RE, "action.highResolution");
+	const mqtt = !!scan.take(MQTT_RE, "action.protocol");
+	const websocket = !!scan.take(WEBSOCKET_RE, "action.protocol");
+	const http = !!scan.take(HTTP_RE, "action.protocol");
+	const udp = !!scan.take(UDP_RE, "action.protocol");
+	const osc = !!scan.take(OSC_RE, "action.protocol");
+
+	// "osc over udp" is still OSC; a URL scheme or an MQTT topic implies its protocol.
+	const scheme = urlMatch?.[1].toLowerCase() ?? null;
+	let protocol: ActionIntent["protocol"] = "osc";
+	if (midi) protocol = "midi";
+	else if (mqtt || topicMatch) protocol = "mqtt";
+	else if (websocket || scheme === "ws" || scheme === "wss") protocol = "websocket";
+	else if (http || scheme === "http" || scheme === "https") protocol = "http";
+	else if (udp && !osc) protocol = "udp";
+	const methodMatch = protocol === "http" ? scan.take(HTTP_METHOD_RE, "action.method") : null;
+
+	let keypoint: string | null = null;
+	for (const rule of keypoints) {
+		if (scan.take(rule.re, `trigger.keypoint:${rule.id}`)) {
+			keypoint = rule.id;
+			break;
+		}
+	}
+
+	let value: ValueSource | null = null;
+	for (const rule of VALUE_RULES) {
+		if (scan.take(rule.re, `value:${rule.source}`)) {
+			value = rule.source;
+			break;
+		}
+	}
+	const beat = !!scan.take(BEAT_RE, "trigger.beat");
+	if (!value && beat) value = "beat";
+	if (!value) value = "payload";
+
+	const shaping = parseShaping(scan);
+	const exit = !!scan.take(EXIT_RE, "trigger.event:exit");
+	const enter = !!scan.take(ENTER_RE, "trigger.event:enter");
+	const continuous = scan.takeAll(CONTINUOUS_RE, "trigger.mode:stream").length > 0;
+	const throttleWord = scan.takeAll(THROTTLE_RE, "throttle").length > 0;
+	const divisionMatch = scan.take(DIVISION_RE, "throttle.division");
+
+	const nodeType = (beat && "tl-beat") || keypointIdToNodeType(keypoint) || "tl-keypoint-current";
+	if (!beat && !keypoint) defaulted.push("trigger");
+
+	let mode: TriggerIntent["mode"] = "event";
+	let event: TriggerIntent["event"] = null;
+	if (nodeType === "tl-beat" || nodeType === "tl-current-track") {
+		mode = "stream";
+	} else if (continuous || value === "group-progress" || value === "keypoint-progress") {
+		mode = "stream";
+	} else {
+		event = exit ? "exit" : "enter";
+		if (!exit && !enter) defaulted.push("trigger.event");
+	}
+
+	// Host and port carry over from the previous clause ("... and on build send /b").
+	const previousEndpoint =
+		previous?.action.protocol === protocol ? endpointOf(previous.action) : null;
+	const endpoint = (hostField: string, defaultPort: number) => {
+		let host = previousEndpoint?.host ?? DEFAULT_HOST;
+		if (hostMatch) host = hostMatch[1] || DEFAULT_HOST;
+		else if (!previousEndpoint) defaulted.push(`action.${hostField}`);
+		let port = previousEndpoint?.port ?? defaultPort;
+		if (portMatch) port = Number.parseInt(portMatch[1] || portMatch[2], 10);
+		else if (!previousEndpoint) defaulted.push("action.port");
+		return { host, port };
+	};
+
+	let action: ActionIntent;
+	if (protocol === "midi") {
+		action = parseMidiAction(
+			{ ccMatch, programMatch, noteMatch, channelMatch, velocityMatch },
+			{ mode, highResolution, defaulted },
+		);
+		// A note on a keypoint event plays while the keypoint is active unless one edge was named.
+		const keypointEvent = mode === "event" && nodeType.startsWith("tl-keypoint");
+		if (action.message === "note" && keypointEvent && (gateWord || (!exit && !enter))) {
+			action.gate = true;
+			event = null;
+			const i = defaulted.indexOf("trigger.event");
+			if (i >= 0) defaulted.splice(i, 1);
+		}
+	} else if (protocol === "mqtt") {
+		const { host, port } = endpoint("broker", DEFAULT_MQTT_PORT);
+		const topic = topicMatch?.[1] ?? addressMatch?.[0].slice(1) ?? `tl${defaultAddress(value)}`;
+		if (!topicMatch && !addressMatch) defaulted.push("action.topic");
+		action = { protocol: "mqtt", broker: host, port, topic };
+	} else if (protocol === "http" || protocol === "websocket") {
+		// Without a URL, build one from whatever host/port/path was stated.
+		let url = urlMatch?.[0];
+		if (!url) {
+			const host = hostMatch?.[1] || DEFAULT_HOST;
+			const port = portMatch
+				? Number.parseInt(portMatch[1] || portMatch[2], 10)
+				: DEFAULT_PORT;
+			const path = addressMatch?.[0] ?? scan.take(PORT_PATH_RE, "action.url")?.[0] ?? "/";
+			url = `${protocol === "http" ? "http" : "ws"}://${host}:${port}${path}`;
+			if (!hostMatch) defaulted.push("action.url");
+		}
+		if (protocol === "http") {
+			const method = (methodMatch?.[1].toUpperCase() ?? "POST") as HttpAction["method"];
+			action = { protocol: "http", method, url };
+		} else {
+			action = { protocol: "websocket", url };
+		}
+	} else if (protocol === "udp") {
+		action = { protocol: "udp", ...endpoint("host", DEFAULT_PORT) };
+	} else {
+		const { host, port } = endpoint("host", DEFAULT_PORT);
+		const address = addressMatch ? addressMatch[0] : defaultAddress(value);
+		if (!addressMatch) defaulted.push("action.address");
+		action = { protocol: "osc", host, port, address };
+	}
+
+	const throttle =
+		mode === "stream" &&
+		(throttleWord || value === "group-progress" || value === "keypoint-progress")
+			? { division: divisionMatch ? divisionMatch[1] : "1/4" }
+			: null;
+
+	return {
+		clause: {
+			text,
+			start: offset,
+			end: offset + text.length,
+			trigger: { nodeType, keypoint, mode, event },
+			action,
+			value,
+			shaping,
+			throttle,
+			widgets,
+			defaulted,
+			matches: scan.matches.sort((a, b) => a.start - b.start),
+		},
+		unparsed: scan.unparsed(),
+	};
+}
+
+export function parseIntent(
+	intent: string,
+	{ keypointTypes = buildKeypointTaxonomy() }: ParseIntentOptions = {},
+): ParsedIntent {
+	const source = String(intent || "");
+	const keypoints = [CURRENT_TRACK_RULE, ...keypointRules(keypointTypes)];
+	const clauses: IntentClause[] = [];
+	const unparsed: TextSpan[] = [];
+	for (const part of splitClauses(source)) {
+		const parsed = parseClause(
+			part.text,
+			part.start,
+			clauses[clauses.length - 1] ?? null,
+			keypoints,
+		);
+		clauses.push(parsed.clause);
+		unparsed.push(...parsed.unparsed);
+	}
+	return { clauses, unparsed };
+}
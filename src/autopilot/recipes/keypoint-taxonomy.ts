@@ -0,0 +1,123 @@
+/**
+ * Keypoint vocabulary for intents, built from the installed `tl-keypoint-*` node types so new
+ * keypoint nodes work without a code change. Each type contributes its ID, its palette label
+ * and phrases generated from both ("pre-drop" also matches "pre drop" and "predrop").
+ *
+ * BUILTIN_KEYPOINTS is only used when the catalog has no keypoint nodes (e.g. Time-Line nodes
+ * not installed yet), so intents still parse the same way.
+ */
+
+import { escapeRegExp } from "../utils.js";
+import { helpSummary } from "./explain-flow.js";
+
+const KEYPOINT_PREFIX = "tl-keypoint-";
+
+// Keypoint IDs shipped before the taxonomy came from the catalog.
+const BUILTIN_KEYPOINTS = [
+	"current",
+	"next",
+	"rhythmic-build",
+	"drive-break",
+	"pre-drop",
+	"fake-drop",
+	"drop-break",
+	"breakdown",
+	"drive",
+	"build",
+	"drop",
+	"solo",
+	"outro",
+	"unknown",
+];
+
+// Phrases that can't be derived from an ID or label.
+const EXTRA_SYNONYMS: Record<string, string[]> = {
+	breakdown: ["break down"],
+};
+
+// Words in palette labels that don't name the keypoint ("Keypoint: Drop", "TL drop").
+const LABEL_NOISE = /\b(?:tl|time[\s-]?line|keypoint)\b/gi;
+
+export type KeypointType = {
+	id: string;
+	nodeType: string;
+	label: string | null;
+	summary: string | null;
+	// "current" and "next" follow the playhead instead of naming a keypoint.
+	relative: boolean;
+	// Phrases that select this keypoint in an intent, longest first.
+	synonyms: string[];
+	source: "catalog" | "builtin";
+};
+
+function words(text: string) {
+	return text
+		.toLowerCase()
+		.replace(LABEL_NOISE, " ")
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+}
+
+function synonymsFor(id: string, label: string | null) {
+	// Relative keypoints need the word "keypoint": "current" alone is too common.
+	if (id === "current" || id === "next") return [`${id} keypoint`];
+	const phrases = new Set<string>();
+	for (const parts of [words(id), words(label ?? "")]) {
+		if (!parts.length) continue;
+		phrases.add(parts.join(" "));
+		// Multi-word names are also written hyphenated or closed up ("pre-drop", "predrop").
+		if (parts.length > 1) {
+			phrases.add(parts.join("-"));
+			phrases.add(parts.join(""));
+		}
+	}
+	for (const extra of EXTRA_SYNONYMS[id] ?? []) phrases.add(extra);
+	return [...phrases].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Keypoint types from the catalog (every `tl-keypoint-*` node), or the built-in list when none
+ * are installed.
+ */
+export function buildKeypointTaxonomy(nodesByType: Record<string, any> = {}): KeypointType[] {
+	const types = Object.keys(nodesByType).filter((t) => t.startsWith(KEYPOINT_PREFIX));
+	const source = types.length ? "catalog" : "builtin";
+	const entries = types.length
+		? types.map((t) => ({ id: t.slice(KEYPOINT_PREFIX.length), node: nodesByType[t] }))
+		: BUILTIN_KEYPOINTS.map((id) => ({ id, node: null }));
+
+	return entries
+		.map(({ id, node }) => {
+			const label = node?.paletteLabel ? String(node.paletteLabel) : null;
+			return {
+				id,
+				nodeType: `${KEYPOINT_PREFIX}${id}`,
+				label,
+				summary: helpSummary(node),
+				relative: id === "current" || id === "next",
+				synonyms: synonymsFor(id, label),
+				source,
+			} satisfies KeypointType;
+		})
+		.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+const phraseWords = (phrase: string) => phrase.split(/[\s-]+/);
+
+/**
+ * Intent matchers for a taxonomy. Longer phrases come first, so "drop break" wins over "drop".
+ */
+export function keypointRules(taxonomy: KeypointType[]) {
+	return taxonomy
+		.flatMap((k) => k.synonyms.map((phrase) => ({ phrase, id: k.id })))
+		.sort(
+			(a, b) =>
+				phraseWords(b.phrase).length - phraseWords(a.phrase).length ||
+				b.phrase.length - a.phrase.length,
+		)
+		.map(({ phrase, id }) => {
+			// Spaces and hyphens are interchangeable ("pre drop", "pre-drop").
+			const pattern = phraseWords(phrase).map(escapeRegExp).join("[\\s-]+");
+			return { re: new RegExp(`\\b${pattern}\\b`, "gi"), id };
+		});
+}
@@ -0,0 +1,172 @@
+/**
+ * MIDI helpers for suggest-flow: note names and the generated step that builds `msg.midi`
+ * (plus the same message as raw bytes in `msg.payload`) for tl-output.
+ *
+ * Continuous values are scaled from their source range into 0..127, or 0..16383 for 14-bit
+ * CC pairs (MSB on the controller, LSB on controller + 32).
+ */
+
+import type { MidiAction } from "./intent-parser.js";
+
+const NOTE_OFFSETS: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+const STATUS = { noteon: 0x90, noteoff: 0x80, cc: 0xb0, program: 0xc0 } as const;
+
+/**
+ * Note name to MIDI note number in scientific pitch notation (C4 = 60, C-1 = 0).
+ */
+export function noteNumber(name: string) {
+	const m = /^([A-Ga-g])([#b]?)(-1|\d)$/.exec(name.trim());
+	if (!m) return null;
+	const accidental = m[2] === "#" ? 1 : m[2] === "b" ? -1 : 0;
+	const n = (Number(m[3]) + 1) * 12 + NOTE_OFFSETS[m[1].toLowerCase()] + accidental;
+	return n >= 0 && n <= 127 ? n : null;
+}
+
+export type MidiMessagePlan = {
+	node: "change" | "function";
+	properties: Record<string, unknown>;
+	notes: string;
+	// One example of what reaches tl-output (two for 14-bit CC).
+	example: Array<{ midi: { type: string; channel: number; data: number[] }; payload: number[] }>;
+};
+
+function message(type: keyof typeof STATUS, channel: number, data: number[]) {
+	return { midi: { type, channel, data }, payload: [STATUS[type] + channel - 1, ...data] };
+}
+
+/**
+ * Plan the step that turns the mapped value into a MIDI message. `range` is the source range
+ * of a continuous msg.payload (null for a fixed message); `gate` sends note-on for enter and
+ * note-off for exit edges (read from msg.event).
+ */
+export function planMidiMessage(
+	action: MidiAction,
+	{ range, gate }: { range: [number, number] | null; gate: boolean },
+): MidiMessagePlan {
+	const { channel, velocity } = action;
+	const name =
+		action.message === "note"
+			? `MIDI note ${action.note}`
+			: action.message === "cc"
+				? `MIDI CC ${action.controller}${action.highResolution ? " (14-bit)" : ""}`
+				: `MIDI program ${action.program}`;
+
+	// Fixed messages need no code.
+	const fixed =
+		action.message === "program"
+			? message("program", channel, [action.program!])
+			: !range && !gate && !action.highResolution
+				? action.message === "note"
+					? message("noteon", channel, [action.note!, velocity])
+					: message("cc", channel, [action.controller!, velocity])
+				: null;
+	if (fixed) {
+		return {
+			node: "change",
+			properties: {
+				name,
+				rules: [
+					{ t: "set", p: "midi", pt: "msg", to: JSON.stringify(fixed.midi), tot: "json" },
+					{
+						t: "set",
+						p: "payload",
+						pt: "msg",
+						to: JSON.stringify(fixed.payload),
+						tot: "json",
+					},
+				],
+			},
+			notes: `Set msg.midi to ${JSON.stringify(fixed.midi)} and msg.payload to the same bytes.`,
+			example: [fixed],
+		};
+	}
+
+	const lines: string[] = [];
+	if (range) {
+		const [min, max] = range;
+		lines.push(
+			...(min === 0 && max === 1
+				? ["const x = Number(msg.payload);"]
+				: [
+						`// Scale ${min}..${max} to 0..1, clamped.`,
+						`const x = (Number(msg.payload) - ${min}) / ${max - min};`,
+					]),
+			"if (!Number.isFinite(x)) return null;",
+			"const v = Math.min(1, Math.max(0, x));",
+		);
+	}
+	const scaled = (max: number) => (range ? `Math.round(v * ${max})` : String(velocity));
+	// Status byte with the channel folded in, as hex (e.g. 0xb1 for CC on channel 2).
+	const status = (type: keyof typeof STATUS) => `0x${(STATUS[type] + channel - 1).toString(16)}`;
+	let notes: string;
+	let example: MidiMessagePlan["example"];
+
+	if (action.message === "note") {
+		const note = action.note!;
+		lines.push(`const velocity = ${scaled(127)};`);
+		if (gate) {
+			lines.push(
+				'const on = msg.event !== "exit";',
+				`const data = [${note}, on ? velocity : 0];`,
+				`msg.midi = { type: on ? "noteon" : "noteoff", channel: ${channel}, data };`,
+				`msg.payload = [(on ? ${status("noteon")} : ${status("noteoff")}), ...data];`,
+				"return msg;",
+			);
+			notes = `Note-on ${note} on enter, note-off on exit (channel ${channel}).`;
+			example = [
+				message("noteon", channel, [note, velocity]),
+				message("noteoff", channel, [note, 0]),
+			];
+		} else {
+			lines.push(
+				`const data = [${note}, velocity];`,
+				`msg.midi = { type: "noteon", channel: ${channel}, data };`,
+				`msg.payload = [${status("noteon")}, ...data];`,
+				"return msg;",
+			);
+			notes = `Note-on ${note} with the value as velocity (channel ${channel}).`;
+			example = [message("noteon", channel, [note, velocity])];
+		}
+	} else if (action.highResolution) {
+		const cc = action.controller!;
+		lines.push(
+			`const value = ${range ? "Math.round(v * 16383)" : `${velocity} << 7`};`,
+			"const msb = value >> 7;",
+			"const lsb = value & 0x7f;",
+			"// Send MSB then LSB as two messages on the same output.",
+			"return [[",
+			`\t{ ...msg, midi: { type: "cc", channel: ${channel}, data: [${cc}, msb] }, payload: [${status("cc")}, ${cc}, msb] },`,
+			`\t{ ...msg, midi: { type: "cc", channel: ${channel}, data: [${cc + 32}, lsb] }, payload: [${status("cc")}, ${cc + 32}, lsb] },`,
+			"]];",
+		);
+		notes = `14-bit CC: MSB on CC ${cc}, LSB on CC ${cc + 32} (channel ${channel}).`;
+		example = [message("cc", channel, [cc, 127]), message("cc", channel, [cc + 32, 127])];
+	} else {
+		const cc = action.controller!;
+		lines.push(
+			`const data = [${cc}, ${scaled(127)}];`,
+			`msg.midi = { type: "cc", channel: ${channel}, data };`,
+			`msg.payload = [${status("cc")}, ...data];`,
+			"return msg;",
+		);
+		notes = `CC ${cc} with the value scaled to 0..127 (channel ${channel}).`;
+		example = [message("cc", channel, [cc, 127])];
+	}
+
+	return {
+		node: "function",
+		properties: {
+			name,
+			func: lines.join("\n"),
+			outputs: 1,
+			timeout: 0,
+			noerr: 0,
+			initialize: "",
+			finalize: "",
+			libs: [],
+		},
+		notes: range ? `${notes} Scaled from ${range[0]}..${range[1]}.` : notes,
+		example,
+	};
+}
@@ -0,0 +1,400 @@
+/**
+ * Plan one trigger -> action clause: the prose `steps`/`wiring` guidance plus the same plan
+ * as `PlannedNode`s that `buildFlowNodes` turns into deployable Node-RED JSON.
+ */
+
+import { actionSummary, configKey, planActionSink } from "./action-sinks.js";
+import { outputPortByLabel, type PlannedNode } from "./build-flow.js";
+import type { IntentClause, TriggerIntent, ValueSource } from "./intent-parser.js";
+import { planMidiMessage } from "./midi.js";
+import type { RecipeDocument } from "./recipe-schema.js";
+import { dataNotes } from "./tl-payloads.js";
+import { planValueShaping } from "./value-shaping.js";
+
+const DEBOUNCE_TYPE = "tl-bpm-debounce";
+
+const WIDGET_NOTES: Record<string, string> = {
+	"ui-tl-song-details":
+		"Wire a TL keypoint node’s *stream* output (or any msg.payload currentTrack snapshot) into this widget.",
+	"ui-tl-keypoint-details":
+		"Wire any tl-keypoint-* node’s *event* output into this widget (it listens to enter/exit edges).",
+	"ui-tl-upcoming-keypoints":
+		"Wire tl-current-track output (or any msg.payload currentTrack snapshot) into this widget. It uses payload.keypoints and payload.currentPositionMs.",
+};
+
+type ValueMapping = {
+	label: string;
+	payloadExpr: string;
+	vizType: string;
+	// Typical range of the value, used to reshape it and to scale it for MIDI.
+	range: [number, number];
+};
+
+function valueMapping(value: ValueSource): ValueMapping {
+	if (value === "group-progress") {
+		return {
+			label: "group progress (0..1)",
+			payloadExpr: "msg.payload.currentKeypointGroupProgress",
+			vizType: "progress",
+			range: [0, 1],
+		};
+	}
+	if (value === "keypoint-progress") {
+		return {
+			label: "keypoint progress (0..1)",
+			payloadExpr: "msg.payload.currentKeypointProgress",
+			vizType: "progress",
+			range: [0, 1],
+		};
+	}
+	if (value === "bpm") {
+		// tl-beat outputs bpm at msg.payload.bpm; current-track also contains bpm.
+		return { label: "BPM", payloadExpr: "msg.payload.bpm", vizType: "text", range: [60, 180] };
+	}
+	if (value === "beat") {
+		return {
+			label: "beat (beatInMeasure)",
+			payloadExpr: "msg.payload.beatInMeasure",
+			vizType: "text",
+			range: [1, 4],
+		};
+	}
+	// Default: pass through original payload, set topic.
+	return {
+		label: "pass-through payload",
+		payloadExpr: "msg.payload",
+		vizType: "led",
+		range: [0, 1],
+	};
+}
+
+/**
+ * Plan a clause. A matching recipe fills in what the clause left unstated (trigger, value)
+ * and inserts its node templates between the value mapping and the output.
+ */
+export function planClause(
+	clause: IntentClause,
+	index: number,
+	nodesByType: Record<string, any>,
+	recipe: RecipeDocument | null = null,
+) {
+	const { action } = clause;
+	const key = (role: string) => `c${index + 1}.${role}`;
+
+	let intent: TriggerIntent = clause.trigger;
+	if (recipe?.trigger && clause.defaulted.includes("trigger")) {
+		const { nodeType, mode, event } = recipe.trigger;
+		intent = {
+			nodeType,
+			keypoint: null,
+			mode,
+			event: mode === "event" ? (event ?? "enter") : null,
+		};
+	}
+	const triggerType = intent.nodeType;
+	const recipeValue = recipe?.value && clause.value === "payload" ? recipe.value : null;
+	const mapping: ValueMapping = recipeValue
+		? { vizType: "led", range: [0, 1], ...recipeValue }
+		: valueMapping(clause.value);
+	const shaping = clause.shaping ?? recipeValue?.shape ?? null;
+	const shape = shaping ? planValueShaping(shaping, mapping.range) : null;
+	const templates = recipe?.nodes ?? [];
+	const sink = planActionSink(action, mapping.vizType);
+
+	const trigger = nodesByType[triggerType] ?? null;
+	const missing = [
+		...new Set([triggerType, ...sink.nodeTypes, ...templates.map((t) => t.type)]),
+	].filter((t) => !nodesByType[t]);
+	const debounce = nodesByType[DEBOUNCE_TYPE] ?? null;
+	const isKeypointEvent = intent.mode === "event" && triggerType.startsWith("tl-keypoint");
+	const throttle = clause.throttle && debounce ? clause.throttle : null;
+	// MIDI note gates use both keypoint edges, so there is no edge filter.
+	const gate = action.protocol === "midi" && action.gate && isKeypointEvent;
+	const filter = isKeypointEvent && !gate;
+	const continuous = intent.mode === "stream" || mapping.payloadExpr !== "msg.payload";
+	// A payload passed through to a sink without a topic needs no change node.
+	const changeRules: any[] = [];
+	if (gate) {
+		changeRules.push({ t: "set", p: "event", pt: "msg", to: "payload.event", tot: "msg" });
+	}
+	if (mapping.payloadExpr !== "msg.payload") {
+		changeRules.push({
+			t: "set",
+			p: "payload",
+			pt: "msg",
+			to: mapping.payloadExpr.replace(/^msg\./, ""),
+			tot: "msg",
+		});
+	}
+	if (sink.topic !== null) {
+		changeRules.push({ t: "set", p: "topic", pt: "msg", to: sink.topic, tot: "str" });
+	}
+	const midi =
+		action.protocol === "midi"
+			? planMidiMessage(action, {
+					range: continuous || shape ? (shape?.range ?? mapping.range) : null,
+					gate,
+				})
+			: null;
+
+	const timing =
+		triggerType === "tl-beat"
+			? { mode: "stream", output: "output" }
+			: intent.mode === "stream"
+				? { mode: "stream", output: "stream" }
+				: { mode: "event", output: "event", event: intent.event };
+
+	const steps: any[] = [];
+	for (const widget of clause.widgets) {
+		steps.push({ step: "1", node: widget, role: "dashboard", notes: WIDGET_NOTES[widget] });
+	}
+
+	steps.push({
+		step: String(steps.length + 1),
+		node: triggerType,
+		role: "trigger",
+		notes:
+			triggerType === "tl-beat"
+				? "Emits on beat changes (topic tl/beat)."
+				: triggerType === "tl-current-track"
+					? "Use output 2 (*stream*) for ~30fps snapshots; output 1 (*change*) only when metadata changes."
+					: intent.mode === "stream"
+						? "Use the *stream* output for continuous snapshots while active."
+						: gate
+							? "Use the *event* output; both enter and exit edges are used."
+							: `Use the *event* output and filter for msg.payload.event === "${intent.event}".`,
+		output: timing.output,
+	});
+
+	if (filter) {
+		steps.push({
+			step: String(steps.length + 1),
+			node: "switch",
+			role: "filter",
+			notes: `Only pass through ${intent.event} edges.`,
+			filter: { property: "payload.event", equals: intent.event },
+		});
+	}
+
+	if (changeRules.length) {
+		steps.push({
+			step: String(steps.length + 1),
+			node: "change",
+			role: "mapping",
+			notes:
+				sink.topic !== null
+					? `Set msg.payload to ${mapping.label}. Set msg.topic to OSC address.`
+					: `Set msg.payload to ${mapping.label}.`,
+			mapping: {
+				set: [
+					...(gate ? [{ target: "msg.event", value: "msg.payload.event" }] : []),
+					{ target: "msg.payload", value: mapping.payloadExpr },
+					...(sink.topic !== null ? [{ target: "msg.topic", value: sink.topic }] : []),
+				],
+			},
+		});
+	}
+
+	if (shape) {
+		steps.push({
+			step: String(steps.length + 1),
+			node: shape.node,
+			role: "shape",
+			notes: shape.notes,
+			config: shape.properties,
+		});
+	}
+
+	for (const t of templates) {
+		steps.push({
+			step: String(steps.length + 1),
+			node: t.type,
+			role: "recipe",
+			notes: `From recipe "${recipe!.id}" (${t.key}).`,
+			config: t.properties ?? {},
+		});
+	}
+
+	// Optional BPM-quantized throttle for high-frequency streams.
+	if (throttle) {
+		steps.push({
+			step: String(steps.length + 1),
+			node: DEBOUNCE_TYPE,
+			role: "throttle",
+			notes:
+				`Optional: quantize to BPM grid (${throttle.division}). ` +
+				"This buffers the latest message and emits only on tick; a null/undefined payload clears pending values.",
+			config: { division: throttle.division },
+		});
+	}
+
+	if (midi) {
+		steps.push({
+			step: String(steps.length + 1),
+			node: midi.node,
+			role: "midi",
+			notes: midi.notes,
+			config: midi.properties,
+			example: midi.example,
+		});
+	}
+
+	for (const step of sink.steps) steps.push({ step: String(steps.length + 1), ...step });
+
+	const triggerOut =
+		triggerType === "tl-beat"
+			? "output"
+			: intent.mode === "stream"
+				? "output(stream)"
+				: "output(event)";
+	const wiring: any[] = [];
+	let current = `${triggerType}:${triggerOut}`;
+	if (filter) {
+		wiring.push({ from: current, to: "switch" });
+		current = "switch";
+	}
+	if (changeRules.length) {
+		wiring.push({ from: current, to: "change" });
+		current = "change";
+	}
+	if (shape) {
+		wiring.push({ from: current, to: shape.node });
+		current = shape.node;
+	}
+	for (const t of templates) {
+		wiring.push({ from: current, to: t.type });
+		current = t.type;
+	}
+	if (throttle) {
+		wiring.push({ from: current, to: DEBOUNCE_TYPE });
+		current = DEBOUNCE_TYPE;
+	}
+	if (midi) {
+		wiring.push({ from: current, to: midi.node });
+		current = midi.node;
+	}
+	wiring.push({ from: current, to: sink.sink.type });
+
+	// The same plan as concrete nodes, keyed by role until real IDs are assigned.
+	const triggerPort =
+		triggerType === "tl-beat"
+			? 0
+			: intent.mode === "stream"
+				? outputPortByLabel(trigger, "stream", 1)
+				: outputPortByLabel(trigger, "event", 0);
+	const chain: PlannedNode[] = [
+		{ key: key("trigger"), type: triggerType, role: "trigger", lane: index },
+	];
+	if (filter) {
+		chain.push({
+			key: key("filter"),
+			type: "switch",
+			role: "filter",
+			lane: index,
+			properties: {
+				name: `${intent.event} only`,
+				property: "payload.event",
+				propertyType: "msg",
+				rules: [{ t: "eq", v: intent.event, vt: "str" }],
+				checkall: "true",
+				repair: false,
+				outputs: 1,
+			},
+		});
+	}
+	if (changeRules.length) {
+		chain.push({
+			key: key("mapping"),
+			type: "change",
+			role: "mapping",
+			lane: index,
+			properties: { name: mapping.label, rules: changeRules },
+		});
+	}
+	if (shape) {
+		chain.push({
+			key: key("shape"),
+			type: shape.node,
+			role: "shape",
+			lane: index,
+			properties: shape.properties,
+		});
+	}
+	const ports = new Map<string, number>();
+	for (const t of templates) {
+		chain.push({
+			key: key(`recipe.${t.key}`),
+			type: t.type,
+			role: "recipe",
+			lane: index,
+			properties: t.properties,
+		});
+		ports.set(key(`recipe.${t.key}`), t.port ?? 0);
+	}
+	if (throttle) {
+		chain.push({
+			key: key("throttle"),
+			type: DEBOUNCE_TYPE,
+			role: "throttle",
+			lane: index,
+			properties: { division: throttle.division },
+		});
+	}
+	if (midi) {
+		chain.push({
+			key: key("midi"),
+			type: midi.node,
+			role: "midi",
+			lane: index,
+			properties: midi.properties,
+		});
+	}
+	chain.push({
+		key: key("output"),
+		type: sink.sink.type,
+		role: "sink",
+		lane: index,
+		properties: sink.sink.properties,
+		...(sink.configRef ? { refs: { [sink.configRef]: configKey(action)! } } : {}),
+	});
+	chain.forEach((n, i) => {
+		const next = chain[i + 1];
+		if (next)
+			n.wires = [{ port: i === 0 ? triggerPort : (ports.get(n.key) ?? 0), to: next.key }];
+	});
+
+	const widgets: PlannedNode[] = clause.widgets.map((widget) => ({
+		key: key(widget),
+		type: widget,
+		role: "dashboard",
+		lane: index,
+	}));
+	for (const widget of widgets) {
+		const port =
+			widget.type === "ui-tl-keypoint-details"
+				? outputPortByLabel(trigger, "event", 0)
+				: triggerPort;
+		chain[0].wires = [...(chain[0].wires ?? []), { port, to: widget.key }];
+	}
+
+	return {
+		text: clause.text,
+		trigger: { type: triggerType, timing },
+		action: {
+			...actionSummary(action),
+			available: sink.nodeTypes.every((t) => nodesByType[t]),
+		},
+		recipe: recipe ? { id: recipe.id, title: recipe.title, notes: recipe.notes } : null,
+		defaulted:
+			intent === clause.trigger
+				? clause.defaulted
+				: clause.defaulted.filter((d) => !d.startsWith("trigger")),
+		missingNodes: missing,
+		steps,
+		wiring,
+		dataNotes: recipe?.dataNotes ?? dataNotes(triggerType, trigger),
+		configKey: configKey(action),
+		configRef: sink.configRef,
+		plan: [...(sink.config ? [sink.config] : []), ...chain, ...widgets],
+	};
+}
@@ -0,0 +1,137 @@
+/**
+ * Declarative recipe documents: named automation patterns (e.g. "strobe on beat") that
+ * suggest-flow applies to a clause when its matchers fit.
+ *
+ * A recipe can override the clause's trigger and value mapping and inserts its node
+ * templates between the value mapping and the output. Matchers are case-insensitive regular
+ * expression sources tested against the clause text.
+ */
+
+import { z } from "zod";
+
+const NodeTemplateSchema = z.object({
+	key: z.string().regex(/^[A-Za-z0-9_-]+$/, "Use letters, digits, '-' or '_'"),
+	type: z.string().min(1),
+	properties: z.record(z.string(), z.unknown()).optional(),
+	// Output port wired to the next template (or the output); default 0.
+	port: z.number().int().min(0).optional(),
+});
+
+// Mirrors `ValueShaping`; omitted fields fall back to a clamped linear mapping.
+const ValueShapingSchema = z.object({
+	to: z.tuple([z.number(), z.number()]).nullable().default(null),
+	clamp: z.boolean().default(true),
+	invert: z.boolean().default(false),
+	curve: z
+		.enum(["linear", "ease-in", "ease-out", "ease-in-out", "exponential", "logarithmic"])
+		.default("linear"),
+	steps: z.number().int().min(2).nullable().default(null),
+});
+
+export const RecipeSchema = z.object({
+	id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, digits and '-'"),
+	title: z.string().min(1),
+	description: z.string().optional(),
+	match: z.object({
+		// Every pattern must match.
+		all: z.array(z.string()).default([]),
+		// At least one pattern must match (ignored when empty).
+		any: z.array(z.string()).default([]),
+		// No pattern may match.
+		none: z.array(z.string()).default([]),
+	}),
+	trigger: z
+		.object({
+			nodeType: z.string().min(1),
+			mode: z.enum(["event", "stream"]),
+			event: z.enum(["enter", "exit"]).optional(),
+		})
+		.optional(),
+	value: z
+		.object({
+			label: z.string().min(1),
+			payloadExpr: z.string().regex(/^msg(\.[A-Za-z_$][\w$]*)*$/, "Expected msg or msg.a.b"),
+			vizType: z.string().optional(),
+			// Source range of the value (default 0..1) and how to reshape it.
+			range: z.tuple([z.number(), z.number()]).optional(),
+			shape: ValueShapingSchema.optional(),
+		})
+		.optional(),
+	nodes: z.array(NodeTemplateSchema).default([]),
+	notes: z.array(z.string()).default([]),
+	dataNotes: z.record(z.string(), z.array(z.string())).optional(),
+});
+
+export type RecipeDocument = z.infer<typeof RecipeSchema>;
+
+export type RecipeIssue = { path: string; message: string };
+
+function compiles(source: string) {
+	try {
+		new RegExp(source, "i");
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Validate a recipe document: schema, unique template keys and compilable matchers.
+ */
+export function validateRecipe(
+	doc: unknown,
+): { ok: true; recipe: RecipeDocument; issues: [] } | { ok: false; issues: RecipeIssue[] } {
+	const parsed = RecipeSchema.safeParse(doc);
+	if (!parsed.success) {
+		return {
+			ok: false,
+			issues: parsed.error.issues.map((i) => ({
+				path: i.path.map(String).join(".") || "(root)",
+				message: i.message,
+			})),
+		};
+	}
+
+	const recipe = parsed.data;
+	const issues: RecipeIssue[] = [];
+	for (const list of ["all", "any", "none"] as const) {
+		recipe.match[list].forEach((source, i) => {
+			if (!compiles(source)) {
+				issues.push({ path: `match.${list}.${i}`, message: `Invalid pattern: ${source}` });
+			}
+		});
+	}
+	if (!recipe.match.all.length && !recipe.match.any.length) {
+		issues.push({ path: "match", message: "At least one 'all' or 'any' pattern is required" });
+	}
+	const keys = new Set<string>();
+	recipe.nodes.forEach((node, i) => {
+		if (keys.has(node.key)) {
+			issues.push({ path: `nodes.${i}.key`, message: `Duplicate key: ${node.key}` });
+		}
+		keys.add(node.key);
+	});
+
+	return issues.length ? { ok: false, issues } : { ok: true, recipe, issues: [] };
+}
+
+/**
+ * Test a recipe's matchers against clause text. Returns the matched spans (relative to
+ * `text`), or null when the recipe doesn't apply.
+ */
+export function matchRecipe(recipe: RecipeDocument, text: string) {
+	const find = (source: string) => new RegExp(source, "i").exec(text);
+	if (recipe.match.none.some((s) => find(s))) return null;
+	const spans: Array<{ start: number; end: number }> = [];
+	for (const source of recipe.match.all) {
+		const m = find(source);
+		if (!m) return null;
+		spans.push({ start: m.index, end: m.index + m[0].length });
+	}
+	if (recipe.match.any.length) {
+		const hits = recipe.match.any.map(find).filter((m): m is RegExpExecArray => !!m);
+		if (!hits.length) return null;
+		for (const m of hits) spans.push({ start: m.index, end: m.index + m[0].length });
+	}
+	return spans;
+}
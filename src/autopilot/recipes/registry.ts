@@ -0,0 +1,150 @@
+/**
+ * Recipe registry: validated recipe documents loaded from a bundled static asset and an
+ * optional KV namespace, so new patterns ship without a code release.
+ *
+ * - Asset: a JSON array of recipes served by the Worker's `ASSETS` binding
+ * - KV: one recipe per key under the `recipe:` prefix; a KV recipe replaces an asset recipe
+ *   with the same id
+ *
+ * Invalid documents are skipped and reported as warnings instead of failing the whole load.
+ */
+
+import { matchRecipe, type RecipeDocument, validateRecipe } from "./recipe-schema.js";
+
+export type RecipeSource = "asset" | "kv";
+
+export type RecipeRegistryConfig = {
+	// Cloudflare `Fetcher` for static assets (env.ASSETS).
+	assets?: { fetch: (input: string) => Promise<Response> } | null;
+	assetPath?: string;
+	// Cloudflare KV namespace.
+	kv?: {
+		list: (options: { prefix: string; cursor?: string }) => Promise<any>;
+		get: (key: string, type: "json") => Promise<unknown>;
+	} | null;
+	ttlMs?: number;
+};
+
+export const RECIPE_KV_PREFIX = "recipe:";
+const DEFAULT_ASSET_PATH = "/recipes.json";
+
+type LoadedRecipe = { recipe: RecipeDocument; source: RecipeSource; key: string };
+
+export class RecipeRegistry {
+	private _config: RecipeRegistryConfig;
+	private _ttlMs: number;
+	private _cache: { ts: number; recipes: LoadedRecipe[]; warnings: string[] } | null = null;
+
+	constructor(config: RecipeRegistryConfig) {
+		this._config = config || {};
+		this._ttlMs = config?.ttlMs ?? 60_000;
+	}
+
+	private async _loadAsset(out: Map<string, LoadedRecipe>, warnings: string[]) {
+		const assets = this._config.assets;
+		if (!assets) return;
+		const path = this._config.assetPath || DEFAULT_ASSET_PATH;
+		try {
+			// The host is ignored by the assets binding; only the path matters.
+			const res = await assets.fetch(`https://assets.local${path}`);
+			if (!res.ok) {
+				warnings.push(`asset ${path}: HTTP ${res.status}`);
+				return;
+			}
+			const docs = await res.json();
+			if (!Array.isArray(docs)) {
+				warnings.push(`asset ${path}: expected a JSON array of recipes`);
+				return;
+			}
+			docs.forEach((doc, i) => {
+				const result = validateRecipe(doc);
+				if (!result.ok) {
+					const first = result.issues[0];
+					warnings.push(`asset ${path}[${i}]: ${first.path}: ${first.message}`);
+					return;
+				}
+				out.set(result.recipe.id, { recipe: result.recipe, source: "asset", key: path });
+			});
+		} catch (error: any) {
+			warnings.push(`asset ${path}: ${error?.message || error}`);
+		}
+	}
+
+	private async _loadKv(out: Map<string, LoadedRecipe>, warnings: string[]) {
+		const kv = this._config.kv;
+		if (!kv) return;
+		try {
+			let cursor: string | undefined;
+			do {
+				const page = await kv.list({ prefix: RECIPE_KV_PREFIX, cursor });
+				for (const { name } of page.keys ?? []) {
+					const result = validateRecipe(await kv.get(name, "json"));
+					if (!result.ok) {
+						const first = result.issues[0];
+						warnings.push(`kv ${name}: ${first.path}: ${first.message}`);
+						continue;
+					}
+					out.set(result.recipe.id, { recipe: result.recipe, source: "kv", key: name });
+				}
+				cursor = page.list_complete ? undefined : page.cursor;
+			} while (cursor);
+		} catch (error: any) {
+			warnings.push(`kv: ${error?.message || error}`);
+		}
+	}
+
+	async refresh() {
+		const recipes = new Map<string, LoadedRecipe>();
+		const warnings: string[] = [];
+		await this._loadAsset(recipes, warnings);
+		await this._loadKv(recipes, warnings);
+		this._cache = { ts: Date.now(), recipes: [...recipes.values()], warnings };
+		return this._cache;
+	}
+
+	async getRecipes({ force = false }: { force?: boolean } = {}) {
+		const expired = !this._cache || Date.now() - this._cache.ts > this._ttlMs;
+		if (force || expired) return this.refresh();
+		return this._cache!;
+	}
+
+	async list({ force = false }: { force?: boolean } = {}) {
+		const { recipes, warnings } = await this.getRecipes({ force });
+		return {
+			recipes: recipes.map(({ recipe, source, key }) => ({
+				id: recipe.id,
+				title: recipe.title,
+				description: recipe.description ?? null,
+				source,
+				key,
+			})),
+			warnings,
+		};
+	}
+
+	async get(id: string) {
+		const { recipes } = await this.getRecipes();
+		return recipes.find((r) => r.recipe.id === id) ?? null;
+	}
+
+	/**
+	 * Best recipe for a clause: the match with the most `all` patterns wins, then load order.
+	 */
+	async match(text: string) {
+		const { recipes } = await this.getRecipes();
+		let best: { recipe: RecipeDocument; spans: Array<{ start: number; end: number }> } | null =
+			null;
+		for (const { recipe } of recipes) {
+			const spans = matchRecipe(recipe, text);
+			if (!spans) continue;
+			if (!best || recipe.match.all.length > best.recipe.match.all.length) {
+				best = { recipe, spans };
+			}
+		}
+		return best;
+	}
+}
+
+export function createRecipeRegistry(config: RecipeRegistryConfig) {
+	return new RecipeRegistry(config);
+}
@@ -0,0 +1,717 @@
+/**
+ * Offline pipeline simulator: run synthetic Time-Line messages through a set of nodes without
+ * Node-RED and report what reaches each sink over a simulated track (e.g. 32 bars at
+ * 128 BPM with a drop at bar 17).
+ *
+ * - Sources: tl-keypoint-* (event and stream outputs), tl-beat, tl-current-track and inject
+ * - Models: switch, change, range, delay, tl-bpm-debounce and link out -> link in
+ * - Everything else passes messages through unchanged on its first output and is listed in
+ *   `warnings`; function nodes are never executed
+ *
+ * Time is simulated, so a run is deterministic: random delays use the middle of their range.
+ */
+
+import { type FlowNodeRef, nodeRef } from "../flows/index.js";
+import { escapeRegExp } from "../utils.js";
+import { outputPortByLabel } from "./build-flow.js";
+import {
+	beatPayload,
+	currentTrackPayload,
+	keypointEventPayload,
+	keypointStreamPayload,
+	type SimulatedTrack,
+	type TrackKeypoint,
+} from "./tl-payloads.js";
+
+export type SimKeypoint = { id: string; bar: number; group?: string };
+
+export type SimulateOptions = {
+	nodesByType?: Record<string, any>;
+	// Only simulate nodes on this tab (ID or label).
+	tab?: string;
+	bpm?: number;
+	bars?: number;
+	beatsPerBar?: number;
+	keypoints?: SimKeypoint[];
+	// Stream outputs emit this many snapshots per second (Time-Line itself uses ~30).
+	streamHz?: number;
+	// Deliveries listed per sink, spread evenly over the run.
+	maxSamples?: number;
+};
+
+export type SinkDelivery = {
+	t: number;
+	// bar.beat, 1-based
+	at: string;
+	keypoint: string | null;
+	topic?: unknown;
+	payload: unknown;
+};
+
+const DEFAULT_KEYPOINTS: SimKeypoint[] = [
+	{ id: "intro", bar: 1 },
+	{ id: "build", bar: 9 },
+	{ id: "drop", bar: 17 },
+	{ id: "outro", bar: 25 },
+];
+
+// Guards against wiring loops that never settle and bounds the work for long, dense tracks.
+const MAX_EVENTS = 200_000;
+
+const TIMEOUT_UNITS_MS: Record<string, number> = {
+	milliseconds: 1,
+	seconds: 1000,
+	minutes: 60_000,
+	hours: 3_600_000,
+	days: 86_400_000,
+};
+
+const RATE_UNITS_MS: Record<string, number> = {
+	second: 1000,
+	minute: 60_000,
+	hour: 3_600_000,
+	day: 86_400_000,
+};
+
+const UNSUPPORTED = Symbol("unsupported");
+
+// A message for node `to`, or (with `run`) the next tick of a repeating source.
+type SimEvent = { t: number; seq: number; to: string; msg: any | null; run?: () => void };
+
+// Min-heap on (t, seq), so messages scheduled for the same time keep their order.
+class EventQueue {
+	private items: SimEvent[] = [];
+	private seq = 0;
+
+	get size() {
+		return this.items.length;
+	}
+
+	private less(a: SimEvent, b: SimEvent) {
+		return a.t < b.t || (a.t === b.t && a.seq < b.seq);
+	}
+
+	push(t: number, to: string, msg: any | null, run?: () => void) {
+		const items = this.items;
+		items.push({ t, seq: this.seq++, to, msg, run });
+		let i = items.length - 1;
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (!this.less(items[i], items[parent])) break;
+			[items[i], items[parent]] = [items[parent], items[i]];
+			i = parent;
+		}
+	}
+
+	pop() {
+		const items = this.items;
+		const top = items[0];
+		const last = items.pop()!;
+		if (items.length) {
+			items[0] = last;
+			let i = 0;
+			for (;;) {
+				const l = 2 * i + 1;
+				const r = l + 1;
+				let m = i;
+				if (l < items.length && this.less(items[l], items[m])) m = l;
+				if (r < items.length && this.less(items[r], items[m])) m = r;
+				if (m === i) break;
+				[items[i], items[m]] = [items[m], items[i]];
+				i = m;
+			}
+		}
+		return top;
+	}
+}
+
+type ModelContext = {
+	t: number;
+	track: SimulatedTrack;
+	context: { flow: Record<string, unknown>; global: Record<string, unknown> };
+	state: Record<string, any>;
+	emit: (port: number, msg: any, delayMs?: number) => void;
+	sendTo: (id: string, msg: any) => void;
+	warn: (message: string) => void;
+};
+
+function pathParts(path: string) {
+	return String(path)
+		.split(/\.|\[(\d+)\]/)
+		.filter((p) => p !== undefined && p !== "");
+}
+
+function getPath(obj: any, path: string) {
+	let cur = obj;
+	for (const part of pathParts(path)) {
+		if (cur == null) return undefined;
+		cur = cur[part];
+	}
+	return cur;
+}
+
+function setPath(obj: any, path: string, value: unknown) {
+	const parts = pathParts(path);
+	let cur = obj;
+	for (const part of parts.slice(0, -1)) {
+		if (cur[part] == null || typeof cur[part] !== "object") cur[part] = {};
+		cur = cur[part];
+	}
+	cur[parts[parts.length - 1]] = value;
+}
+
+function deletePath(obj: any, path: string) {
+	const parts = pathParts(path);
+	const parent = parts.length > 1 ? getPath(obj, parts.slice(0, -1).join(".")) : obj;
+	if (parent && typeof parent === "object") delete parent[parts[parts.length - 1]];
+}
+
+function clone<T>(value: T): T {
+	return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// msg/flow/global property holder for a typed property reference.
+function holder(type: string | undefined, msg: any, ctx: ModelContext) {
+	if (!type || type === "msg") return msg;
+	if (type === "flow") return ctx.context.flow;
+	if (type === "global") return ctx.context.global;
+	return null;
+}
+
+function typedValue(value: unknown, type: string | undefined, msg: any, ctx: ModelContext) {
+	switch (type) {
+		case undefined:
+		case "str":
+			return String(value ?? "");
+		case "num":
+			return Number(value);
+		case "bool":
+			return String(value) === "true";
+		case "json":
+			try {
+				return JSON.parse(String(value));
+			} catch {
+				return UNSUPPORTED;
+			}
+		case "date":
+			return ctx.t;
+		case "msg":
+		case "flow":
+		case "global":
+			return clone(getPath(holder(type, msg, ctx), String(value)));
+		default:
+			return UNSUPPORTED;
+	}
+}
+
+function looseEquals(a: unknown, b: unknown) {
+	return a === b || (a != null && b != null && String(a) === String(b));
+}
+
+function isEmpty(v: unknown) {
+	if (typeof v === "string" || Array.isArray(v)) return v.length === 0;
+	if (v && typeof v === "object") return Object.keys(v).length === 0;
+	return false;
+}
+
+function testRule(rule: any, subject: any, msg: any, ctx: ModelContext) {
+	const v = typedValue(rule.v, rule.vt, msg, ctx);
+	if (
+		v === UNSUPPORTED &&
+		!["true", "false", "null", "nnull", "empty", "nempty"].includes(rule.t)
+	) {
+		return UNSUPPORTED;
+	}
+	switch (rule.t) {
+		case "eq":
+			return looseEquals(subject, v);
+		case "neq":
+			return !looseEquals(subject, v);
+		case "lt":
+			return Number(subject) < Number(v);
+		case "lte":
+			return Number(subject) <= Number(v);
+		case "gt":
+			return Number(subject) > Number(v);
+		case "gte":
+			return Number(subject) >= Number(v);
+		case "btwn": {
+			const v2 = typedValue(rule.v2, rule.v2t, msg, ctx);
+			const [lo, hi] = [Number(v), Number(v2)].sort((a, b) => a - b);
+			return Number(subject) >= lo && Number(subject) <= hi;
+		}
+		case "cont":
+			return String(subject ?? "").includes(String(v));
+		case "regex":
+			return new RegExp(String(rule.v), rule.case ? "i" : "").test(String(subject ?? ""));
+		case "true":
+			return subject === true;
+		case "false":
+			return subject === false;
+		case "null":
+			return subject == null;
+		case "nnull":
+			return subject != null;
+		case "empty":
+			return isEmpty(subject);
+		case "nempty":
+			return !isEmpty(subject) && subject != null;
+		default:
+			return UNSUPPORTED;
+	}
+}
+
+function switchModel(node: any, msg: any, ctx: ModelContext) {
+	const source = holder(node.propertyType, msg, ctx);
+	if (!source) {
+		ctx.warn(`switch: property type "${node.propertyType}" is not simulated`);
+		return;
+	}
+	const subject = getPath(source, String(node.property ?? "payload"));
+	const checkAll = String(node.checkall ?? "true") !== "false";
+	let matched = false;
+	(Array.isArray(node.rules) ? node.rules : []).some((rule: any, port: number) => {
+		const hit = rule.t === "else" ? !matched : testRule(rule, subject, msg, ctx);
+		if (hit === UNSUPPORTED) {
+			ctx.warn(`switch: rule "${rule.t}" (${rule.vt ?? "str"}) is not simulated`);
+			return false;
+		}
+		if (!hit) return false;
+		matched = true;
+		ctx.emit(port, msg);
+		return !checkAll;
+	});
+}
+
+function changeModel(node: any, msg: any, ctx: ModelContext) {
+	for (const rule of Array.isArray(node.rules) ? node.rules : []) {
+		const target = holder(rule.pt, msg, ctx);
+		if (!target) {
+			ctx.warn(`change: property type "${rule.pt}" is not simulated`);
+			continue;
+		}
+		if (rule.t === "set") {
+			const value = typedValue(rule.to, rule.tot, msg, ctx);
+			if (value === UNSUPPORTED) {
+				ctx.warn(`change: value type "${rule.tot}" is not simulated`);
+				continue;
+			}
+			setPath(target, rule.p, value);
+		} else if (rule.t === "delete") {
+			deletePath(target, rule.p);
+		} else if (rule.t === "move") {
+			const to = holder(rule.tot, msg, ctx);
+			if (!to) {
+				ctx.warn(`change: property type "${rule.tot}" is not simulated`);
+				continue;
+			}
+			const value = getPath(target, rule.p);
+			deletePath(target, rule.p);
+			setPath(to, rule.to, value);
+		} else if (rule.t === "change") {
+			const current = getPath(target, rule.p);
+			const to = typedValue(rule.to, rule.tot, msg, ctx);
+			if (typeof current !== "string" || to === UNSUPPORTED) continue;
+			let from: RegExp;
+			try {
+				from = new RegExp(
+					rule.fromt === "re" ? String(rule.from) : escapeRegExp(String(rule.from)),
+					"g",
+				);
+			} catch {
+				ctx.warn(`change: invalid regular expression "${rule.from}"`);
+				continue;
+			}
+			setPath(target, rule.p, current.replace(from, String(to)));
+		}
+	}
+	ctx.emit(0, msg);
+}
+
+function rangeModel(node: any, msg: any, ctx: ModelContext) {
+	const property = String(node.property || "payload");
+	const n = Number(getPath(msg, property));
+	if (!Number.isFinite(n)) {
+		ctx.warn(`range: msg.${property} is not a number (message passed on unchanged)`);
+		ctx.emit(0, msg);
+		return;
+	}
+	const [minin, maxin, minout, maxout] = [node.minin, node.maxin, node.minout, node.maxout].map(
+		Number,
+	);
+	let value = n;
+	if (node.action === "drop" && (n < minin || n > maxin)) return;
+	if (node.action === "clamp") value = Math.min(maxin, Math.max(minin, n));
+	if (node.action === "roll") {
+		const span = maxin - minin;
+		value = ((((n - minin) % span) + span) % span) + minin;
+	}
+	let out = ((value - minin) / (maxin - minin)) * (maxout - minout) + minout;
+	if (node.round) out = Math.round(out);
+	setPath(msg, property, out);
+	ctx.emit(0, msg);
+}
+
+function delayModel(node: any, msg: any, ctx: ModelContext) {
+	const units = TIMEOUT_UNITS_MS[node.timeoutUnits] ?? 1000;
+	if (node.pauseType === "delay") {
+		ctx.emit(0, msg, Number(node.timeout) * units);
+		return;
+	}
+	if (node.pauseType === "delayv") {
+		ctx.emit(0, msg, Number(msg.delay) || 0);
+		return;
+	}
+	if (node.pauseType === "random") {
+		const mid = (Number(node.randomFirst) + Number(node.randomLast)) / 2;
+		ctx.emit(0, msg, mid * (TIMEOUT_UNITS_MS[node.randomUnits] ?? 1000));
+		return;
+	}
+	// rate / queue / timed: at most `rate` messages per `nbRateUnits` x `rateUnits`.
+	const period = (Number(node.nbRateUnits) || 1) * (RATE_UNITS_MS[node.rateUnits] ?? 1000);
+	const interval = period / (Number(node.rate) || 1);
+	const nextFree = ctx.state.nextFree ?? 0;
+	if (node.drop) {
+		if (ctx.t < nextFree) return;
+		ctx.state.nextFree = ctx.t + interval;
+		ctx.emit(0, msg);
+		return;
+	}
+	const slot = Math.max(ctx.t, nextFree);
+	ctx.state.nextFree = slot + interval;
+	ctx.emit(0, msg, slot - ctx.t);
+}
+
+// Buffers the latest message and emits it on the next grid tick; msg === null is a tick.
+function debounceModel(_node: any, msg: any | null, ctx: ModelContext) {
+	if (msg === null) {
+		if (ctx.state.pending) ctx.emit(0, ctx.state.pending);
+		ctx.state.pending = null;
+		return;
+	}
+	ctx.state.pending = msg.payload === null || msg.payload === undefined ? null : msg;
+}
+
+const MODELS: Record<string, (node: any, msg: any, ctx: ModelContext) => void> = {
+	switch: switchModel,
+	change: changeModel,
+	range: rangeModel,
+	delay: delayModel,
+	"tl-bpm-debounce": debounceModel,
+	"link in": (_node, msg, ctx) => ctx.emit(0, msg),
+	"link out": (node, msg, ctx) => {
+		if (node.mode === "return") {
+			ctx.warn("link out: return mode is not simulated");
+			return;
+		}
+		for (const id of Array.isArray(node.links) ? node.links : []) ctx.sendTo(String(id), msg);
+	},
+};
+
+/**
+ * Grid length of a tl-bpm-debounce division in beats: note values ("1/8", "1/4" = one beat,
+ * "1/2") or "1 beat" / "1 bar".
+ */
+export function divisionBeats(division: unknown, beatsPerBar = 4) {
+	const d = String(division ?? "1/4").trim();
+	const count = Number.parseFloat(d) || 1;
+	if (/bar/i.test(d)) return count * beatsPerBar;
+	if (/beat/i.test(d)) return count;
+	const m = /^(\d+)\s*\/\s*(\d+)$/.exec(d);
+	return m ? (Number(m[1]) / Number(m[2])) * 4 : 1;
+}
+
+export function buildTrack({
+	bpm = 128,
+	bars = 32,
+	beatsPerBar = 4,
+	keypoints = DEFAULT_KEYPOINTS,
+}: Pick<SimulateOptions, "bpm" | "bars" | "beatsPerBar" | "keypoints"> = {}): SimulatedTrack {
+	const barMs = (60_000 / bpm) * beatsPerBar;
+	const durationMs = bars * barMs;
+	const sorted = [...keypoints]
+		.filter((k) => k.bar >= 1 && k.bar <= bars)
+		.sort((a, b) => a.bar - b.bar);
+	const spans = sorted.map((k, i) => ({
+		id: k.id,
+		group: k.group ?? k.id,
+		startMs: (k.bar - 1) * barMs,
+		endMs: i + 1 < sorted.length ? (sorted[i + 1].bar - 1) * barMs : durationMs,
+	}));
+
+	// Consecutive keypoints in the same group share group progress and steps.
+	const out: TrackKeypoint[] = [];
+	for (let i = 0; i < spans.length; ) {
+		let j = i;
+		while (j + 1 < spans.length && spans[j + 1].group === spans[i].group) j++;
+		const members = spans.slice(i, j + 1);
+		out.push(
+			...members.map((k, step) => ({
+				...k,
+				groupStep: step + 1,
+				groupTotalSteps: members.length,
+				groupStartMs: members[0].startMs,
+				groupEndMs: members[members.length - 1].endMs,
+			})),
+		);
+		i = j + 1;
+	}
+
+	return {
+		trackId: "simulated",
+		title: "Simulated track",
+		artist: "Autopilot",
+		bpm,
+		beatsPerBar,
+		durationMs,
+		keypoints: out,
+	};
+}
+
+function pickSamples<T>(items: T[], max: number) {
+	if (items.length <= max) return items;
+	if (max <= 1) return items.slice(0, max);
+	return Array.from(
+		{ length: max },
+		(_, i) => items[Math.round((i * (items.length - 1)) / (max - 1))],
+	);
+}
+
+/**
+ * Run the simulation and report what every sink received.
+ */
+export function simulateFlow(flows: any[], options: SimulateOptions = {}) {
+	const { nodesByType = {}, streamHz = 10, maxSamples = 16 } = options;
+	const all = Array.isArray(flows) ? flows : [];
+	let tabId: string | null = null;
+	if (options.tab) {
+		const tab = all.find(
+			(n) => n?.type === "tab" && (n.id === options.tab || n.label === options.tab),
+		);
+		if (!tab) throw new Error(`Unknown tab: ${options.tab}`);
+		tabId = tab.id;
+	}
+
+	const track = buildTrack(options);
+	const beatMs = 60_000 / track.bpm;
+	const byId = new Map<string, any>(all.map((n) => [String(n?.id), n]));
+	// Flow nodes only: config nodes have no wires (link nodes may omit them).
+	const nodes = all.filter(
+		(n) =>
+			n?.type &&
+			n.type !== "tab" &&
+			n.type !== "group" &&
+			(Array.isArray(n.wires) || String(n.type).startsWith("link ")) &&
+			(!tabId || n.z === tabId),
+	);
+
+	const targets = (node: any, port: number): string[] => {
+		const ids = Array.isArray(node?.wires?.[port]) ? node.wires[port] : [];
+		return ids.map(String).filter((id: string) => byId.has(id));
+	};
+	const isSink = (node: any) =>
+		!(Array.isArray(node.wires) ? node.wires : []).some(
+			(p: unknown) => Array.isArray(p) && p.length,
+		) && !(node.type === "link out" && Array.isArray(node.links) && node.links.length);
+
+	const queue = new EventQueue();
+	const warnings = new Set<string>();
+	const received = new Map<string, number>();
+	const emitted = new Map<string, number>();
+	const deliveries = new Map<string, SinkDelivery[]>();
+	const states = new Map<string, Record<string, any>>();
+	const context = { flow: {}, global: {} };
+
+	// Deliveries at the very end (exit edges, the last debounce tick) belong to the last bar.
+	const keypointAt = (t: number) => {
+		const at = Math.min(t, track.durationMs - 1);
+		return track.keypoints.find((k) => at >= k.startMs && at < k.endMs)?.id ?? null;
+	};
+	const position = (t: number) => {
+		const beats = Math.min(t, track.durationMs - 1) / beatMs;
+		return `${Math.floor(beats / track.beatsPerBar) + 1}.${Math.floor(beats % track.beatsPerBar) + 1}`;
+	};
+	const emitFrom = (node: any, port: number, msg: any, t: number) => {
+		for (const id of targets(node, port)) queue.push(t, id, clone(msg));
+	};
+	const source = (node: any, port: number, t: number, msg: any) => {
+		emitted.set(node.id, (emitted.get(node.id) ?? 0) + 1);
+		emitFrom(node, port, msg, t);
+	};
+
+	// `count` ticks at start, start + step, ...; each tick is queued only when the previous one
+	// runs, so a long track at a high stream rate never holds more than one tick per source.
+	const ticks = (
+		start: number,
+		step: number,
+		count: number,
+		tick: (t: number, i: number) => void,
+	) => {
+		const run = (i: number) => {
+			const t = start + i * step;
+			tick(t, i);
+			if (i + 1 < count) queue.push(start + (i + 1) * step, "", null, () => run(i + 1));
+		};
+		if (count > 0 && step > 0) queue.push(start, "", null, () => run(0));
+	};
+
+	// Schedule source messages and debounce ticks.
+	for (const node of nodes) {
+		const type = String(node.type);
+		const catalogNode = nodesByType[type];
+		const frame = 1000 / Math.max(1, streamHz);
+		const frames = (from: number, to: number) => Math.max(0, Math.ceil((to - from) / frame));
+		if (type === "tl-beat") {
+			ticks(0, beatMs, Math.floor(track.durationMs / beatMs), (t, b) =>
+				source(node, 0, t, { topic: "tl/beat", payload: beatPayload(track, b, t) }),
+			);
+		} else if (type === "tl-current-track") {
+			source(node, 0, 0, { payload: currentTrackPayload(track, 0) });
+			const stream = outputPortByLabel(catalogNode, "stream", 1);
+			ticks(0, frame, frames(0, track.durationMs), (t) =>
+				source(node, stream, t, { payload: currentTrackPayload(track, t) }),
+			);
+		} else if (type === "tl-keypoint-next") {
+			warnings.add("tl-keypoint-next is not simulated");
+		} else if (type.startsWith("tl-keypoint-")) {
+			const id = type.slice("tl-keypoint-".length);
+			const event = outputPortByLabel(catalogNode, "event", 0);
+			const stream = outputPortByLabel(catalogNode, "stream", 1);
+			for (const k of track.keypoints.filter((k) => id === "current" || k.id === id)) {
+				source(node, event, k.startMs, {
+					payload: keypointEventPayload(track, k, k.startMs, "enter"),
+				});
+				ticks(k.startMs, frame, frames(k.startMs, k.endMs), (t) =>
+					source(node, stream, t, { payload: keypointStreamPayload(track, k, t) }),
+				);
+				source(node, event, k.endMs, {
+					payload: keypointEventPayload(track, k, k.endMs, "exit"),
+				});
+			}
+		} else if (type === "inject") {
+			const fake = { t: 0, context } as ModelContext;
+			const payload = typedValue(node.payload, node.payloadType ?? "date", {}, fake);
+			const make = (t: number) => ({
+				topic: node.topic ?? "",
+				payload:
+					node.payloadType === "date" ? t : payload === UNSUPPORTED ? "" : clone(payload),
+			});
+			if (node.once) source(node, 0, (Number(node.onceDelay) || 0.1) * 1000, make(0));
+			const repeat = Number(node.repeat) * 1000;
+			if (repeat > 0) {
+				ticks(repeat, repeat, Math.floor(track.durationMs / repeat), (t) =>
+					source(node, 0, t, make(t)),
+				);
+			}
+		} else if (type === "tl-bpm-debounce") {
+			const interval = divisionBeats(node.division, track.beatsPerBar) * beatMs;
+			// Queued one interval ahead so a tick precedes messages arriving at the same time.
+			ticks(0, interval, Math.floor(track.durationMs / interval), (t) =>
+				queue.push(t + interval, node.id, null),
+			);
+		}
+	}
+
+	let processed = 0;
+	let truncated = false;
+	while (queue.size) {
+		const { t, to, msg, run } = queue.pop();
+		if (run) {
+			run();
+			continue;
+		}
+		if (++processed > MAX_EVENTS) {
+			truncated = true;
+			break;
+		}
+		const node = byId.get(to);
+		if (!node) continue;
+		if (msg !== null) received.set(to, (received.get(to) ?? 0) + 1);
+
+		if (msg !== null && isSink(node)) {
+			const list = deliveries.get(to) ?? [];
+			list.push({
+				t: Math.round(t),
+				at: position(t),
+				keypoint: keypointAt(t),
+				...(msg.topic !== undefined ? { topic: msg.topic } : {}),
+				payload: msg.payload,
+			});
+			deliveries.set(to, list);
+			continue;
+		}
+
+		if (!states.has(to)) states.set(to, {});
+		const ctx: ModelContext = {
+			t,
+			track,
+			context,
+			state: states.get(to)!,
+			emit: (port, out, delayMs = 0) => {
+				emitted.set(to, (emitted.get(to) ?? 0) + 1);
+				for (const id of targets(node, port)) queue.push(t + delayMs, id, clone(out));
+			},
+			sendTo: (id, out) => {
+				emitted.set(to, (emitted.get(to) ?? 0) + 1);
+				if (byId.has(id)) queue.push(t, id, clone(out));
+			},
+			warn: (message) => warnings.add(message),
+		};
+		const model = MODELS[node.type];
+		if (model) {
+			model(node, msg, ctx);
+		} else {
+			warnings.add(
+				node.type === "function"
+					? "function nodes are not executed; messages pass through unchanged"
+					: `${node.type} is not modelled; messages pass through unchanged on output 1`,
+			);
+			if (msg !== null) ctx.emit(0, msg);
+		}
+	}
+
+	const sinks = [...deliveries.entries()].map(([id, list]) => {
+		const numbers = list
+			.map((d) => d.payload)
+			.filter((p): p is number => typeof p === "number");
+		const topics = [...new Set(list.map((d) => d.topic).filter((x) => x !== undefined))];
+		return {
+			...nodeRef(byId.get(id)),
+			received: list.length,
+			first: list[0] ?? null,
+			last: list[list.length - 1] ?? null,
+			payloadRange: numbers.length
+				? { min: Math.min(...numbers), max: Math.max(...numbers) }
+				: null,
+			topics,
+			samples: pickSamples(list, maxSamples),
+		};
+	});
+
+	return {
+		timeline: {
+			bpm: track.bpm,
+			bars: Math.round(track.durationMs / (beatMs * track.beatsPerBar)),
+			beatsPerBar: track.beatsPerBar,
+			durationMs: Math.round(track.durationMs),
+			streamHz,
+			keypoints: track.keypoints.map((k) => ({
+				id: k.id,
+				group: k.group,
+				from: position(k.startMs),
+				startMs: Math.round(k.startMs),
+				endMs: Math.round(k.endMs),
+			})),
+		},
+		sources: nodes
+			.filter((n) => emitted.has(n.id) && !received.has(n.id))
+			.map((n) => ({ ...nodeRef(n), emitted: emitted.get(n.id)! })),
+		sinks,
+		// Nodes that never saw a message (e.g. behind a switch that never matches).
+		silent: nodes
+			.filter((n) => !received.has(n.id) && !emitted.has(n.id))
+			.map((n): FlowNodeRef => nodeRef(n)),
+		warnings: [...warnings],
+		truncated,
+	};
+}
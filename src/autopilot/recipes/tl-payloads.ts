@@ -0,0 +1,179 @@
+/**
+ * What Time-Line nodes put in msg.payload, shared by suggest-flow (data notes for a plan),
+ * explain-flow (naming the values a flow reads) and simulate-flow (synthetic payloads).
+ */
+
+// msg paths of well-known Time-Line values and how to call them in prose.
+export const TL_VALUE_LABELS: Record<string, string> = {
+	"msg.payload.currentKeypointGroupProgress": "group progress",
+	"msg.payload.currentKeypointProgress": "keypoint progress",
+	"msg.payload.currentKeypointGroupStep": "group step",
+	"msg.payload.currentKeypointGroupTotalSteps": "group step count",
+	"msg.payload.currentPositionMs": "playhead position (ms)",
+	"msg.payload.durationMs": "track duration (ms)",
+	"msg.payload.bpm": "BPM",
+	"msg.payload.beatInMeasure": "beat in measure",
+	"msg.payload.beat": "beat number",
+	"msg.payload.event": "keypoint edge (enter/exit)",
+	"msg.payload.title": "track title",
+	"msg.payload.artist": "track artist",
+};
+
+/**
+ * Keypoint a tl-keypoint-* node type reacts to, in prose ("drop", "the current keypoint").
+ */
+export function keypointLabel(type: string) {
+	if (type === "tl-keypoint-current") return "the current keypoint";
+	if (type === "tl-keypoint-next") return "the next keypoint";
+	const id = type.replace(/^tl-keypoint-/, "").replace(/-/g, " ");
+	return `${/^[aeiou]/.test(id) ? "an" : "a"} ${id} keypoint`;
+}
+
+// Output msg properties documented in a node's help, e.g. "payload (string)".
+function helpDataNotes(catalogNode: any): Record<string, string[]> | null {
+	const outputs: any[] = Array.isArray(catalogNode?.help?.outputs)
+		? catalogNode.help.outputs
+		: [];
+	const notes: Record<string, string[]> = {};
+	outputs.forEach((port, i) => {
+		const key = outputs.length === 1 ? "outputHas" : `output${i + 1}Has`;
+		notes[key] = (port.properties ?? []).map((p: any) => {
+			const meta = [p.type, p.optional ? "optional" : null].filter(Boolean).join(", ");
+			return meta ? `${p.name} (${meta})` : p.name;
+		});
+	});
+	return Object.keys(notes).length ? notes : null;
+}
+
+/**
+ * Payload fields a trigger node provides, by output kind. Time-Line nodes are described
+ * here; other nodes fall back to the output properties in their catalog help.
+ */
+export function dataNotes(triggerType: string, catalogNode?: any): Record<string, string[]> | null {
+	if (triggerType.startsWith("tl-keypoint")) {
+		return {
+			keypointStreamHas: [
+				"currentKeypointProgress",
+				"currentKeypointGroupProgress",
+				"currentKeypointGroupStep",
+				"currentKeypointGroupTotalSteps",
+				"currentPositionMs",
+				"durationMs",
+				"bpm",
+			],
+			keypointEventHas: [
+				"event (enter/exit)",
+				"reason (optional)",
+				"currentKeypointProgress",
+				"currentKeypointGroupProgress",
+			],
+		};
+	}
+	if (triggerType === "tl-beat") {
+		return {
+			beatPayloadHas: [
+				"deckId",
+				"beatInMeasure",
+				"beat",
+				"bpm",
+				"pitch",
+				"currentPositionMs",
+				"ts",
+			],
+		};
+	}
+	if (triggerType === "tl-current-track") {
+		return {
+			currentTrackChangePayload: [
+				"deckId",
+				"trackId",
+				"title",
+				"artist",
+				"isPlaying",
+				"isOnAir",
+				"bpm",
+				"durationMs",
+			],
+		};
+	}
+	return helpDataNotes(catalogNode);
+}
+
+// A keypoint on a simulated track; consecutive keypoints sharing `group` form one group.
+export type TrackKeypoint = {
+	id: string;
+	startMs: number;
+	endMs: number;
+	group: string;
+	groupStep: number;
+	groupTotalSteps: number;
+	groupStartMs: number;
+	groupEndMs: number;
+};
+
+export type SimulatedTrack = {
+	trackId: string;
+	title: string;
+	artist: string;
+	bpm: number;
+	beatsPerBar: number;
+	durationMs: number;
+	keypoints: TrackKeypoint[];
+};
+
+const progress = (t: number, start: number, end: number) =>
+	end > start ? Math.min(1, Math.max(0, (t - start) / (end - start))) : 1;
+
+/**
+ * Stream snapshot of a tl-keypoint-* node while `keypoint` is active.
+ */
+export function keypointStreamPayload(track: SimulatedTrack, keypoint: TrackKeypoint, t: number) {
+	return {
+		currentKeypointProgress: progress(t, keypoint.startMs, keypoint.endMs),
+		currentKeypointGroupProgress: progress(t, keypoint.groupStartMs, keypoint.groupEndMs),
+		currentKeypointGroupStep: keypoint.groupStep,
+		currentKeypointGroupTotalSteps: keypoint.groupTotalSteps,
+		currentPositionMs: t,
+		durationMs: track.durationMs,
+		bpm: track.bpm,
+	};
+}
+
+export function keypointEventPayload(
+	track: SimulatedTrack,
+	keypoint: TrackKeypoint,
+	t: number,
+	event: "enter" | "exit",
+) {
+	return { event, ...keypointStreamPayload(track, keypoint, t) };
+}
+
+/**
+ * tl-beat payload for the `beat`-th beat (0-based) of the track.
+ */
+export function beatPayload(track: SimulatedTrack, beat: number, t: number) {
+	return {
+		deckId: 1,
+		beatInMeasure: (beat % track.beatsPerBar) + 1,
+		beat: beat + 1,
+		bpm: track.bpm,
+		pitch: 0,
+		currentPositionMs: t,
+		ts: t,
+	};
+}
+
+export function currentTrackPayload(track: SimulatedTrack, t: number) {
+	return {
+		deckId: 1,
+		trackId: track.trackId,
+		title: track.title,
+		artist: track.artist,
+		isPlaying: t < track.durationMs,
+		isOnAir: true,
+		bpm: track.bpm,
+		durationMs: track.durationMs,
+		currentPositionMs: t,
+		keypoints: track.keypoints.map(({ id, startMs, endMs }) => ({ id, startMs, endMs })),
+	};
+}
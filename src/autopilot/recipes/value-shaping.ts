@@ -0,0 +1,126 @@
+/**
+ * Value shaping for suggest-flow mappings: rescale, clamp, invert, curve and quantize a
+ * numeric msg.payload before it reaches the output. Lighting targets rarely accept raw 0..1.
+ *
+ * Plain linear rescaling uses the core `range` node; curves and stepped output need a
+ * generated `function` node.
+ */
+
+export type ValueCurve =
+	| "linear"
+	| "ease-in"
+	| "ease-out"
+	| "ease-in-out"
+	| "exponential"
+	| "logarithmic";
+
+export type ValueShaping = {
+	// Output range; null keeps the source range.
+	to: [number, number] | null;
+	clamp: boolean;
+	invert: boolean;
+	curve: ValueCurve;
+	// Quantize to this many evenly spaced levels (>= 2).
+	steps: number | null;
+};
+
+export type ValueShapingPlan = {
+	node: "range" | "function";
+	properties: Record<string, unknown>;
+	notes: string;
+	// Range of msg.payload after this step.
+	range: [number, number];
+};
+
+// Curves on normalised 0..1 input, as function-node code assigning `v`.
+const CURVE_CODE: Record<Exclude<ValueCurve, "linear">, string> = {
+	"ease-in": "v = v * v;",
+	"ease-out": "v = 1 - (1 - v) * (1 - v);",
+	"ease-in-out": "v = v < 0.5 ? 2 * v * v : 1 - 2 * (1 - v) * (1 - v);",
+	exponential: "v = v <= 0 ? 0 : (2 ** (10 * v) - 1) / 1023;",
+	logarithmic: "v = v <= 0 ? 0 : Math.log2(1 + 1023 * v) / 10;",
+};
+
+// Integer targets such as DMX (0..255) get whole numbers; 0..1 style ranges stay fractional.
+function roundsOutput([min, max]: [number, number]) {
+	return Number.isInteger(min) && Number.isInteger(max) && Math.abs(max - min) > 1;
+}
+
+export function describeShaping(shaping: ValueShaping, source: [number, number]) {
+	const to = shaping.to ?? source;
+	const parts = [`${source[0]}..${source[1]} -> ${to[0]}..${to[1]}`];
+	if (shaping.invert) parts.push("inverted");
+	if (shaping.curve !== "linear") parts.push(shaping.curve);
+	if (shaping.steps) parts.push(`${shaping.steps} steps`);
+	parts.push(shaping.clamp ? "clamped" : "unclamped");
+	return parts.join(", ");
+}
+
+/**
+ * Plan the shaping step for a value whose source range is `source`.
+ */
+export function planValueShaping(
+	shaping: ValueShaping,
+	source: [number, number],
+): ValueShapingPlan {
+	const to = shaping.to ?? source;
+	const round = roundsOutput(to);
+	const name = describeShaping(shaping, source);
+
+	if (shaping.curve === "linear" && !shaping.steps) {
+		// The range node inverts by swapping the output bounds.
+		const [minout, maxout] = shaping.invert ? [to[1], to[0]] : to;
+		return {
+			node: "range",
+			properties: {
+				name,
+				minin: String(source[0]),
+				maxin: String(source[1]),
+				minout: String(minout),
+				maxout: String(maxout),
+				action: shaping.clamp ? "clamp" : "scale",
+				round,
+				property: "payload",
+			},
+			notes: `Scale msg.payload ${name} with a range node${round ? ", rounded to integers" : ""}.`,
+			range: to,
+		};
+	}
+
+	const [min, max] = source;
+	const lines = [
+		min === 0 && max === 1
+			? "const x = Number(msg.payload);"
+			: `const x = (Number(msg.payload) - ${min}) / ${max - min};`,
+		"if (!Number.isFinite(x)) return null;",
+		shaping.clamp ? "let v = Math.min(1, Math.max(0, x));" : "let v = x;",
+	];
+	if (shaping.invert) lines.push("v = 1 - v;");
+	if (shaping.curve !== "linear") lines.push(CURVE_CODE[shaping.curve]);
+	if (shaping.steps) {
+		lines.push(
+			`// Quantize to ${shaping.steps} levels.`,
+			`v = Math.round(v * ${shaping.steps - 1}) / ${shaping.steps - 1};`,
+		);
+	}
+	const span = to[1] - to[0];
+	const scaled = to[0] === 0 ? (span === 1 ? "v" : `v * ${span}`) : `${to[0]} + v * ${span}`;
+	lines.push(round ? `msg.payload = Math.round(${scaled});` : `msg.payload = ${scaled};`);
+	lines.push("return msg;");
+
+	return {
+		node: "function",
+		properties: {
+			name,
+			func: lines.join("\n"),
+			outputs: 1,
+			timeout: 0,
+			noerr: 0,
+			initialize: "",
+			finalize: "",
+			libs: [],
+		},
+		notes: `Shape msg.payload ${name} in a generated function node.`,
+		range: to,
+	};
+}
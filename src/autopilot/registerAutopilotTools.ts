@@ -1,10 +1,21 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
-import { createNodeCatalog } from "./catalog/index.js";
+import { type CatalogRpc, createCatalogStore, createNodeCatalog } from "./catalog/index.js";
+import {
+	createSharedFlowSnapshots,
+	type FlowSnapshotRpc,
+	type SharedFlowSnapshots,
+} from "./flows/index.js";
+import { createRecipeRegistry } from "./recipes/index.js";
+import registerCatalogResources from "./resources/catalog.js";
+import registerAnalysisTools from "./tools/analysis.js";
+import registerDashboardTools from "./tools/dashboard.js";
+import registerFlowNodeTools from "./tools/flow-nodes.js";
 import registerFlowTools from "./tools/flows.js";
 import registerNodeTools from "./tools/nodes.js";
 import registerRecipeTools from "./tools/recipes.js";
 import registerSettingsTools from "./tools/settings.js";
+import registerSnapshotTools from "./tools/snapshots.js";
 import registerUtilityTools from "./tools/utility.js";
 
 type MaybeEnv = Record<string, unknown> | undefined | null;
@@ -25,6 +36,12 @@ function getEnvBool(env: MaybeEnv, key: string): boolean | undefined {
 	return undefined;
 }
 
+// Worker bindings (KV namespaces, Fetchers) are objects rather than strings.
+function getEnvBinding(env: MaybeEnv, key: string): any {
+	const v = env?.[key];
+	return v && typeof v === "object" ? v : null;
+}
+
 export type AutopilotMcpConfig = {
 	// Connection
 	nodeRedUrl: string;
@@ -37,6 +54,20 @@ export type AutopilotMcpConfig = {
 
 	// Required by node tools + recipes
 	nodeCatalog: ReturnType<typeof createNodeCatalog>;
+	recipes: ReturnType<typeof createRecipeRegistry>;
+
+	// Pre-write flow snapshots, shared by all sessions (only with the NODE_RED_STATE binding)
+	flowSnapshots?: SharedFlowSnapshots | null;
+	getActor?: () => string | null;
+};
+
+/**
+ * Host capabilities supplied by the Durable Object running the MCP server.
+ */
+export type AutopilotHostContext = {
+	// RPC stub of the NodeRedState Durable Object shared by every session for a Node-RED URL.
+	getSharedState?: (nodeRedUrl: string) => FlowSnapshotRpc & CatalogRpc;
+	getActor?: () => string | null;
 };
 
 /**
@@ -47,31 +78,63 @@ export type AutopilotMcpConfig = {
  * - NODE_RED_TOKEN
  * - NODE_MCP_PREFIX
  * - NODE_MCP_VERBOSE
+ * - NODE_RED_API_VERSION (Admin API version header, default "v2" for rev-checked deploys)
+ * - NODE_MCP_SNAPSHOT_LIMIT (max stored flow snapshots, default 50)
+ * - NODE_MCP_RECIPES_ASSET (path of the bundled recipe file, default "/recipes.json")
+ *
+ * Bindings: ASSETS (static assets, bundled recipes), NODE_RED_STATE (Durable Object shared by all
+ * sessions for one Node-RED URL: flow snapshots and, without CATALOG_KV, parsed node catalogs),
+ * RECIPES_KV (optional, `recipe:<id>` keys), CATALOG_KV (optional, parsed node catalogs under
+ * `catalog:<url>`)
  */
-export function registerAutopilotTools(server: McpServer, env: MaybeEnv) {
+export function registerAutopilotTools(
+	server: McpServer,
+	env: MaybeEnv,
+	host: AutopilotHostContext = {},
+) {
 	const nodeRedUrl = getEnvString(env, "NODE_RED_URL") ?? "http://localhost:1880";
 	const nodeRedToken = getEnvString(env, "NODE_RED_TOKEN") ?? "";
 	const apiPrefix = getEnvString(env, "NODE_MCP_PREFIX") ?? "";
 	const verbose = getEnvBool(env, "NODE_MCP_VERBOSE") ?? false;
+	const snapshotLimit = Number.parseInt(getEnvString(env, "NODE_MCP_SNAPSHOT_LIMIT") ?? "", 10);
+	const sharedState = host.getSharedState?.(nodeRedUrl) ?? null;
 
 	const config: AutopilotMcpConfig = {
 		nodeRedUrl,
 		nodeRedToken,
 		apiPrefix,
-		nodeRedAPIVersion: "v1",
+		nodeRedAPIVersion: getEnvString(env, "NODE_RED_API_VERSION") ?? "v2",
 		verbose,
-		// Parsed from Node-RED’s `/nodes` HTML (cached).
+		// Parsed from Node-RED’s `/nodes` HTML (cached, and persisted by content hash).
 		nodeCatalog: createNodeCatalog({
 			nodeRedUrl,
 			nodeRedToken,
 			apiPrefix,
 			verbose,
+			store: createCatalogStore({
+				kv: getEnvBinding(env, "CATALOG_KV"),
+				shared: sharedState,
+			}),
+		}),
+		recipes: createRecipeRegistry({
+			assets: getEnvBinding(env, "ASSETS"),
+			assetPath: getEnvString(env, "NODE_MCP_RECIPES_ASSET"),
+			kv: getEnvBinding(env, "RECIPES_KV"),
 		}),
+		flowSnapshots: sharedState
+			? createSharedFlowSnapshots(sharedState, { limit: snapshotLimit || undefined })
+			: null,
+		getActor: host.getActor,
 	};
 
 	registerFlowTools(server, config);
+	registerFlowNodeTools(server, config);
+	registerAnalysisTools(server, config);
 	registerNodeTools(server, config);
 	registerSettingsTools(server, config);
+	registerSnapshotTools(server, config);
 	registerUtilityTools(server, config);
 	registerRecipeTools(server, config);
+	registerDashboardTools(server, config);
+	registerCatalogResources(server, config);
 }
@@ -0,0 +1,139 @@
+/**
+ * MCP resources for the node catalog, so clients can attach node docs as context without
+ * tool calls:
+ *
+ * - nodered://catalog/nodes/{type}: help as text/markdown, the node's JSON Schema as JSON
+ * - nodered://catalog/modules/{module}: the module's node list as markdown, their schemas as JSON
+ *
+ * Template variables are URI-encoded (node types contain spaces, scoped packages a slash).
+ */
+
+import { type McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { moduleDocMarkdown, nodeConfigSchema, nodeDocMarkdown } from "../catalog/index.js";
+import { helpSummary } from "../recipes/index.js";
+import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
+
+const NODE_URI = "nodered://catalog/nodes/";
+const MODULE_URI = "nodered://catalog/modules/";
+const MAX_COMPLETIONS = 100;
+
+function variable(value: string | string[]) {
+	return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+// Case-insensitive prefix matches first, then substring matches.
+function complete(values: string[], input: string) {
+	const q = input.toLowerCase();
+	const prefix = values.filter((v) => v.toLowerCase().startsWith(q));
+	const rest = values.filter(
+		(v) => !v.toLowerCase().startsWith(q) && v.toLowerCase().includes(q),
+	);
+	return [...prefix, ...rest].slice(0, MAX_COMPLETIONS);
+}
+
+function nodeSchema(node: any) {
+	return {
+		type: node.type,
+		module: node.modulePackage ?? null,
+		inputs: node.inputs ?? null,
+		outputs: node.outputs ?? null,
+		outputLabels: node.outputLabels ?? null,
+		configSchema: node.configSchema ?? nodeConfigSchema(node),
+	};
+}
+
+export default function registerCatalogResources(server: McpServer, config: AutopilotMcpConfig) {
+	const catalog = config.nodeCatalog;
+	const nodes = async () => (await catalog.getCatalog()).nodes as any[];
+	const modules = async () =>
+		[
+			...new Set((await nodes()).map((n) => n.modulePackage).filter(Boolean)),
+		].sort() as string[];
+
+	server.registerResource(
+		"catalog-node",
+		new ResourceTemplate(`${NODE_URI}{type}`, {
+			list: async () => ({
+				resources: (await nodes()).map((n) => ({
+					uri: `${NODE_URI}${encodeURIComponent(n.type)}`,
+					name: n.type,
+					title:
+						n.paletteLabel && typeof n.paletteLabel === "string"
+							? n.paletteLabel
+							: n.type,
+					description: helpSummary(n) ?? undefined,
+					mimeType: "text/markdown",
+				})),
+			}),
+			complete: {
+				type: async (value) =>
+					complete(
+						(await nodes()).map((n) => n.type),
+						value,
+					),
+			},
+		}),
+		{
+			title: "Node-RED node type",
+			description: "Help (markdown) and configuration JSON Schema for an installed node type",
+		},
+		async (uri, { type }) => {
+			const name = variable(type);
+			const node = await catalog.getNode(name);
+			if (!node) throw new Error(`Unknown node type: ${name}`);
+			return {
+				contents: [
+					{ uri: uri.href, mimeType: "text/markdown", text: nodeDocMarkdown(node) },
+					{
+						uri: uri.href,
+						mimeType: "application/json",
+						text: JSON.stringify(nodeSchema(node), null, 2),
+					},
+				],
+			};
+		},
+	);
+
+	server.registerResource(
+		"catalog-module",
+		new ResourceTemplate(`${MODULE_URI}{module}`, {
+			list: async () => ({
+				resources: (await modules()).map((m) => ({
+					uri: `${MODULE_URI}${encodeURIComponent(m)}`,
+					name: m,
+					mimeType: "text/markdown",
+				})),
+			}),
+			complete: {
+				module: async (value) => complete(await modules(), value),
+			},
+		}),
+		{
+			title: "Node-RED module",
+			description: "Node types of an installed module (markdown) and their JSON Schemas",
+		},
+		async (uri, { module }) => {
+			const name = variable(module);
+			const members = (await nodes()).filter((n) => n.modulePackage === name);
+			if (!members.length) throw new Error(`Unknown module: ${name}`);
+			return {
+				contents: [
+					{
+						uri: uri.href,
+						mimeType: "text/markdown",
+						text: moduleDocMarkdown(name, members),
+					},
+					{
+						uri: uri.href,
+						mimeType: "application/json",
+						text: JSON.stringify(
+							{ module: name, nodes: members.map(nodeSchema) },
+							null,
+							2,
+						),
+					},
+				],
+			};
+		},
+	);
+}
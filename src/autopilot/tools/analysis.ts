@@ -0,0 +1,67 @@
+/**
+ * MCP tools for analysing how messages move through the live flows
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { analyzeFunctionNodes, traceNode } from "../flows/index.js";
+import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
+import { fetchFlows, textResult, toolErrorResult } from "../utils.js";
+
+export default function registerAnalysisTools(server: McpServer, config: AutopilotMcpConfig) {
+	// Trace message paths through a node
+	server.tool(
+		"trace-node",
+		"Traces the message paths that feed a node (upstream) and that it feeds (downstream), across tabs. Follows wires, link out/link in and link call pairs (including return mode) and subflow instances. Upstream paths are listed from the source towards the node. Args: id (e.g.'396c237c693dc') direction (e.g.'upstream')",
+		{
+			id: z.string().describe("Node ID to trace from"),
+			direction: z
+				.enum(["upstream", "downstream", "both"])
+				.optional()
+				.describe("Which way to trace (default both)"),
+			depth: z
+				.number()
+				.int()
+				.min(1)
+				.max(50)
+				.optional()
+				.describe("Max hops per path (default 10)"),
+			maxPaths: z
+				.number()
+				.int()
+				.min(1)
+				.max(500)
+				.optional()
+				.describe("Max paths per direction (default 50)"),
+		},
+		async ({ id, direction, depth, maxPaths }) => {
+			try {
+				const { flows } = await fetchFlows(config);
+				return textResult(traceNode(flows, id, { direction, depth, maxPaths }));
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Static analysis of function nodes
+	server.tool(
+		"analyze-function-nodes",
+		"Parses the code (func, initialize, finalize) of function nodes and reports msg properties read and written, flow/global/context keys read and set (cross-referenced between nodes), node.send/return output counts compared with the node's outputs, and syntax errors with line numbers. Args: tab (e.g.'396c237c693dc') id (e.g.'a1b2c3d4e5f60718')",
+		{
+			tab: z.string().optional().describe("Optional tab ID to limit the analysis to"),
+			id: z.string().optional().describe("Optional function node ID to analyse"),
+		},
+		async ({ tab, id }) => {
+			try {
+				const { flows } = await fetchFlows(config);
+				if (id && !flows.some((n) => n.id === id && n.type === "function")) {
+					throw new Error(`Not a function node: ${id}`);
+				}
+				return textResult(analyzeFunctionNodes(flows, { tab, ids: id ? [id] : undefined }));
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+}
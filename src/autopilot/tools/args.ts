@@ -0,0 +1,18 @@
+/**
+ * Zod argument schemas shared by the flow-writing tools
+ */
+
+import { z } from "zod";
+
+export const revArg = z
+	.string()
+	.optional()
+	.describe("Flows revision from get-flows; rejected if the flows changed since");
+
+// "reload" deploys nothing new, so it is only offered by the reload-flows tool.
+export const deploymentTypeArg = z
+	.enum(["nodes", "flows", "full"])
+	.optional()
+	.describe(
+		"Node-RED deployment type: nodes (default, restart only changed nodes), flows (restart changed tabs) or full (restart everything)",
+	);
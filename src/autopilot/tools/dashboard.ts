@@ -0,0 +1,111 @@
+/**
+ * MCP tools for setting up Dashboard 2 operator screens with the Time-Line widgets
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { updateLiveFlows } from "../flows/index.js";
+import { buildFlowNodes, planDashboard, TL_WIDGET_TYPES } from "../recipes/index.js";
+import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
+import { fetchFlows, textResult, toolErrorResult } from "../utils.js";
+import { deploymentTypeArg, revArg } from "./args.js";
+
+export default function registerDashboardTools(server: McpServer, config: AutopilotMcpConfig) {
+	// Scaffold a Time-Line operator screen
+	server.tool(
+		"scaffold-dashboard",
+		"Sets up a Dashboard 2 operator screen for Time-Line in one call: lists the existing ui-base, ui-theme, ui-page and ui-group config nodes, plans whichever are missing (page name/path, group width) and places the Time-Line widgets in the chosen group, wired to the right source (song details and upcoming keypoints from the stream outputs of tl-keypoint-current and tl-current-track, keypoint details from a keypoint's event output). Returns the plan only unless apply is set. Args: group (e.g.'Time-Line' or an existing ui-group ID), pageName (e.g.'Operator'), pagePath (e.g.'/operator'), keypoint (e.g.'drop')",
+		{
+			widgets: z
+				.array(z.enum(TL_WIDGET_TYPES))
+				.min(1)
+				.refine((widgets) => new Set(widgets).size === widgets.length, {
+					message: "Each widget can only be placed once",
+				})
+				.optional()
+				.describe("Widgets to place, each at most once (default: all three)"),
+			group: z
+				.string()
+				.optional()
+				.describe("Existing ui-group ID or name; created on the page when none matches"),
+			groupWidth: z
+				.number()
+				.int()
+				.min(1)
+				.max(12)
+				.optional()
+				.describe("Width of a new group in grid columns (default 6)"),
+			pageName: z.string().optional().describe("Page for a new group (default 'Time-Line')"),
+			pagePath: z.string().optional().describe("Page path (default derived from pageName)"),
+			keypoint: z
+				.string()
+				.optional()
+				.describe("Keypoint ID for ui-tl-keypoint-details (default 'current')"),
+			apply: z
+				.boolean()
+				.optional()
+				.describe("If true, deploy the nodes instead of only returning them"),
+			tab: z
+				.string()
+				.optional()
+				.describe("Existing tab ID for the widgets and sources (default: a new tab)"),
+			tabLabel: z.string().optional().describe("Label for the new tab"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+		},
+		async ({ apply, tab, tabLabel, rev, deploymentType, ...options }) => {
+			try {
+				const { nodesByType } = await config.nodeCatalog.getCatalog();
+				const scaffold = (flows: any[]) => {
+					const planned = planDashboard(flows, { nodesByType, ...options });
+					const built = buildFlowNodes(planned.plan, {
+						nodesByType,
+						flows,
+						tab,
+						tabLabel: tabLabel || planned.page.name,
+					});
+					const { plan: _plan, ...summary } = planned;
+					return {
+						...summary,
+						widgets: planned.widgets.map(({ key, ...w }) => ({
+							...w,
+							id: built.ids[key],
+						})),
+						flow: built,
+					};
+				};
+
+				if (!apply) {
+					const { flows } = await fetchFlows(config);
+					return textResult(scaffold(flows));
+				}
+
+				const result = await updateLiveFlows(
+					config,
+					"scaffold-dashboard",
+					(flows) => {
+						const response = scaffold(flows);
+						if (response.missingNodes.length) {
+							throw new Error(
+								`Missing node types: ${response.missingNodes.join(", ")}`,
+							);
+						}
+						return { flows: [...flows, ...response.flow.nodes], response };
+					},
+					{ rev, deploymentType },
+				);
+				const response = {
+					...result.response,
+					applied: {
+						snapshot: result.snapshot,
+						rev: result.rev,
+						deployment: result.deployment,
+					},
+				};
+				return textResult(response);
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+}
@@ -0,0 +1,238 @@
+/**
+ * MCP tools for editing individual nodes inside the live flows
+ *
+ * Each tool does a single read-modify-write of `/flows`, so clients never have to re-emit
+ * a whole tab to change one node.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+	addNode,
+	connectNodes,
+	deleteNode,
+	disconnectNodes,
+	updateLiveFlows,
+	updateNodeProperties,
+} from "../flows/index.js";
+import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
+import { textResult, toolErrorResult } from "../utils.js";
+import { deploymentTypeArg, revArg } from "./args.js";
+
+function parseObjectJson(json: string | undefined, what: string) {
+	if (!json) return {};
+	const value = JSON.parse(json);
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		throw new Error(`${what} must be a JSON object`);
+	}
+	return value as Record<string, unknown>;
+}
+
+export default function registerFlowNodeTools(server: McpServer, config: AutopilotMcpConfig) {
+	const catalog = config.nodeCatalog;
+
+	const outputsOf = async (id: string, flows: any[]) => {
+		const node = flows.find((n) => n?.id === id);
+		const catalogNode = node ? await catalog.getNode(node.type) : null;
+		return typeof catalogNode?.outputs === "number" ? catalogNode.outputs : null;
+	};
+
+	// Add node
+	server.tool(
+		"add-node",
+		"Adds a single node to a tab. Assigns a fresh ID and fills property defaults from the node catalog; propertiesJson overrides them. Args: type (e.g.'tl-output') z (tab ID) propertiesJson (e.g.'{name: 'OSC out', x: 400, y: 120}')",
+		{
+			type: z.string().describe('Node type, e.g. "tl-output"'),
+			z: z
+				.string()
+				.optional()
+				.describe("Tab or subflow ID (omit only for global config nodes)"),
+			propertiesJson: z
+				.string()
+				.optional()
+				.describe("Optional node properties in JSON (merged over catalog defaults)"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+		},
+		async ({ type, z: tab, propertiesJson, rev, deploymentType }) => {
+			try {
+				const properties = parseObjectJson(propertiesJson, "propertiesJson");
+				const catalogNode = await catalog.getNode(type);
+				if (!catalogNode && !type.startsWith("subflow:")) {
+					throw new Error(`Unknown node type: ${type}`);
+				}
+				const result = await updateLiveFlows(
+					config,
+					"add-node",
+					(flows) => addNode(flows, { type, z: tab, properties, catalogNode }),
+					{ rev, deploymentType },
+				);
+				return textResult({
+					ok: true,
+					node: result.node,
+					snapshot: result.snapshot,
+					rev: result.rev,
+					deployment: result.deployment,
+				});
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Patch node properties
+	server.tool(
+		"update-node-properties",
+		"Applies a JSON Merge Patch to one node's properties (null removes a property). id, type and other nodes are left untouched. Args: id (node ID) patchJson (e.g.'{name: 'Drop OSC', address: '/drop'}')",
+		{
+			id: z.string().describe("Node ID"),
+			patchJson: z.string().describe("Properties to change, as a JSON object"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+		},
+		async ({ id, patchJson, rev, deploymentType }) => {
+			try {
+				const patch = parseObjectJson(patchJson, "patchJson");
+				const result = await updateLiveFlows(
+					config,
+					"update-node-properties",
+					(flows) => updateNodeProperties(flows, id, patch),
+					{ rev, deploymentType },
+				);
+				return textResult({
+					ok: true,
+					node: result.node,
+					snapshot: result.snapshot,
+					rev: result.rev,
+					deployment: result.deployment,
+				});
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Delete node
+	server.tool(
+		"delete-node",
+		"Deletes a single node and removes every reference to it (incoming wires, link node targets, group membership; members of a deleted group move to its parent group). A non-empty tab or subflow is only deleted with cascade, which deletes its nodes (and subflow instances) too; a config node that is still referenced is only deleted with force, which clears those references. Args: id (node ID)",
+		{
+			id: z.string().describe("Node ID to delete"),
+			cascade: z
+				.boolean()
+				.optional()
+				.describe("Also delete the nodes of a tab or subflow and a subflow's instances"),
+			force: z
+				.boolean()
+				.optional()
+				.describe("Delete a config node that is still referenced, clearing the references"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+		},
+		async ({ id, cascade, force, rev, deploymentType }) => {
+			try {
+				const result = await updateLiveFlows(
+					config,
+					"delete-node",
+					async (flows) => {
+						const node = flows.find((n) => n?.id === id);
+						const catalogNode = node ? await catalog.getNode(node.type) : null;
+						return deleteNode(flows, id, {
+							cascade,
+							force,
+							catalogNode: catalogNode ?? undefined,
+						});
+					},
+					{ rev, deploymentType },
+				);
+				return textResult({
+					ok: true,
+					deleted: {
+						id: result.node.id,
+						type: result.node.type,
+						z: result.node.z ?? null,
+					},
+					cascadeDeleted: result.removed,
+					cleanedReferences: result.cleaned,
+					snapshot: result.snapshot,
+					rev: result.rev,
+					deployment: result.deployment,
+				});
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Connect nodes
+	server.tool(
+		"connect-nodes",
+		"Wires an output port of one node to another node on the same tab. Args: from (source node ID) to (target node ID) port (0-based output index, default 0)",
+		{
+			from: z.string().describe("Source node ID"),
+			to: z.string().describe("Target node ID"),
+			port: z.number().int().min(0).optional().describe("0-based output port (default 0)"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+		},
+		async ({ from, to, port, rev, deploymentType }) => {
+			try {
+				const result = await updateLiveFlows(
+					config,
+					"connect-nodes",
+					async (flows) =>
+						connectNodes(flows, {
+							from,
+							to,
+							port,
+							outputs: await outputsOf(from, flows),
+						}),
+					{ rev, deploymentType },
+				);
+				return textResult({
+					ok: true,
+					changed: result.changed,
+					wires: result.wires,
+					snapshot: result.snapshot,
+					rev: result.rev,
+					deployment: result.deployment,
+				});
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Disconnect nodes
+	server.tool(
+		"disconnect-nodes",
+		"Removes a wire from an output port of one node to another. Args: from (source node ID) to (target node ID) port (0-based output index, default 0)",
+		{
+			from: z.string().describe("Source node ID"),
+			to: z.string().describe("Target node ID"),
+			port: z.number().int().min(0).optional().describe("0-based output port (default 0)"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+		},
+		async ({ from, to, port, rev, deploymentType }) => {
+			try {
+				const result = await updateLiveFlows(
+					config,
+					"disconnect-nodes",
+					(flows) => disconnectNodes(flows, { from, to, port }),
+					{ rev, deploymentType },
+				);
+				return textResult({
+					ok: true,
+					changed: result.changed,
+					wires: result.wires,
+					snapshot: result.snapshot,
+					rev: result.rev,
+					deployment: result.deployment,
+				});
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+}
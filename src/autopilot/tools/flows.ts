@@ -4,37 +4,146 @@
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import {
+	DEFAULT_DEPLOYMENT_TYPE,
+	deploymentImpact,
+	diffFlows,
+	importFragment,
+	lintFlows,
+	parseFragment,
+	renderFlowGraph,
+	replaceFlow,
+	snapshotLiveFlows,
+	updateLiveFlows,
+} from "../flows/index.js";
 import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
-import { callNodeRed, formatFlowsOutput } from "../utils.js";
+import {
+	callNodeRed,
+	deployFlows,
+	fetchFlows,
+	fetchFlowsAtRev,
+	formatFlowsOutput,
+	textResult,
+	toolErrorResult,
+} from "../utils.js";
+import { deploymentTypeArg, revArg } from "./args.js";
+
+function dryRunResult(diff: ReturnType<typeof diffFlows>) {
+	return textResult({ dryRun: true, deployed: false, diff });
+}
+
+function snapshotNote(snapshot: Awaited<ReturnType<typeof snapshotLiveFlows>>) {
+	return snapshot ? ` (snapshot #${snapshot.id} saved)` : "";
+}
+
+// Text summary followed by which nodes the deploy restarted.
+function deployedResult(message: string, deployment: ReturnType<typeof deploymentImpact>) {
+	return {
+		content: [
+			{
+				type: "text" as const,
+				text: `${message}\n\n${JSON.stringify({ deployment }, null, 2)}`,
+			},
+		],
+	};
+}
 
 export default function registerFlowTools(server: McpServer, config: AutopilotMcpConfig) {
 	// Get all flows
 	server.tool(
 		"get-flows",
-		"Retrieves the complete list of flows from the Node-RED instance.",
+		"Retrieves the complete list of flows from the Node-RED instance. With the v2 Admin API the result is { rev, flows }; pass rev to write tools so concurrent edits are rejected instead of overwritten.",
 		{},
 		async () => {
 			const flows = await callNodeRed("get", "/flows", null, config);
-			return {
-				content: [{ type: "text", text: JSON.stringify(flows, null, 2) }],
-			};
+			return textResult(flows);
 		},
 	);
 
 	// Update flows
 	server.tool(
 		"update-flows",
-		"Updates the entire flow configuration of the Node-RED instance. Args: flowsJson (e.g.'[{type: 'tab', id: '396c2376c693d', label: 'Sheet 1'}]')",
-		{ flowsJson: z.string().describe("Flow configuration in JSON") },
+		"Updates the entire flow configuration of the Node-RED instance. Defaults to a 'nodes' deployment that only restarts changed nodes; the result lists the restarted nodes. Args: flowsJson (e.g.'[{type: 'tab', id: '396c2376c693d', label: 'Sheet 1'}]')",
+		{
+			flowsJson: z
+				.string()
+				.describe("Flow configuration in JSON (a flow array, or { rev, flows })"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+			dryRun: z
+				.boolean()
+				.optional()
+				.describe("If true, return a diff against the live flows without deploying"),
+		},
+		async ({ flowsJson, rev, deploymentType = DEFAULT_DEPLOYMENT_TYPE, dryRun }) => {
+			try {
+				const parsed = JSON.parse(flowsJson);
+				// Accept the v2 `{ rev, flows }` shape returned by get-flows as well as a bare array.
+				const flowsObj = Array.isArray(parsed) ? parsed : parsed?.flows;
+				if (!Array.isArray(flowsObj)) {
+					throw new Error("flowsJson must be a flow array or { rev, flows }");
+				}
+				const expectedRev = rev ?? (Array.isArray(parsed) ? undefined : parsed?.rev);
+				if (dryRun) {
+					const current = await fetchFlows(config);
+					return dryRunResult(diffFlows(current.flows, flowsObj));
+				}
+				const current = await fetchFlowsAtRev(config, expectedRev);
+				const snapshot = await snapshotLiveFlows(config, "update-flows", current.flows);
+				const deployed = await deployFlows(config, flowsObj, {
+					rev: expectedRev || current.rev,
+					deploymentType,
+				});
+				return deployedResult(
+					`Flows updated${deployed.rev ? ` (rev ${deployed.rev})` : ""}${snapshotNote(snapshot)}`,
+					deploymentImpact(current.flows, flowsObj, deploymentType),
+				);
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Diff proposed flows against the live instance (no deploy)
+	server.tool(
+		"diff-flows",
+		"Compares a proposed full flow configuration against the live Node-RED flows without deploying. Returns added, removed and modified nodes (with property-level changes) and rewired connections. Args: flowsJson (same shape as update-flows)",
+		{ flowsJson: z.string().describe("Proposed flow configuration in JSON") },
 		async ({ flowsJson }) => {
 			try {
-				const flowsObj = JSON.parse(flowsJson);
-				await callNodeRed("post", "/flows", flowsObj, config);
-				return { content: [{ type: "text", text: "Flows updated" }] };
+				const parsed = JSON.parse(flowsJson);
+				const flowsObj = Array.isArray(parsed) ? parsed : parsed?.flows;
+				if (!Array.isArray(flowsObj)) {
+					throw new Error("flowsJson must be a flow array or { rev, flows }");
+				}
+				const current = await fetchFlows(config);
+				const diff = diffFlows(current.flows, flowsObj);
+				return textResult(diff);
 			} catch (error: any) {
-				return {
-					content: [{ type: "text", text: `Error: ${error?.message ?? String(error)}` }],
-				};
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Lint flows against the node catalog
+	server.tool(
+		"lint-flows",
+		"Checks flows against the installed node catalog and returns findings with node IDs and severity: unknown node types, wires to missing nodes, z values pointing to missing tabs, broken config-node references (e.g. tl-output.server) and wire arrays longer than the node's outputs. Lints the live flows unless flowsJson is given.",
+		{
+			flowsJson: z
+				.string()
+				.optional()
+				.describe("Optional proposed flow configuration in JSON (defaults to live flows)"),
+			tab: z.string().optional().describe("Optional tab ID to limit findings to"),
+		},
+		async ({ flowsJson, tab }) => {
+			try {
+				const flows = flowsJson ? JSON.parse(flowsJson) : (await fetchFlows(config)).flows;
+				const catalog = await config.nodeCatalog.getCatalog();
+				const result = lintFlows(flows, catalog.nodesByType, { tab });
+				return textResult(result);
+			} catch (error: any) {
+				return toolErrorResult(error);
 			}
 		},
 	);
@@ -46,9 +155,7 @@ export default function registerFlowTools(server: McpServer, config: AutopilotMc
 		{ id: z.string().describe("Flow ID") },
 		async ({ id }) => {
 			const flow = await callNodeRed("get", `/flow/${id}`, null, config);
-			return {
-				content: [{ type: "text", text: JSON.stringify(flow, null, 2) }],
-			};
+			return textResult(flow);
 		},
 	);
 
@@ -59,16 +166,34 @@ export default function registerFlowTools(server: McpServer, config: AutopilotMc
 		{
 			id: z.string().describe("Flow ID"),
 			flowJson: z.string().describe("Flow configuration in JSON"),
+			rev: revArg,
+			dryRun: z
+				.boolean()
+				.optional()
+				.describe("If true, return a diff against the live flows without deploying"),
 		},
-		async ({ id, flowJson }) => {
+		async ({ id, flowJson, rev, dryRun }) => {
 			try {
 				const flowObj = JSON.parse(flowJson);
+				const current = await fetchFlowsAtRev(config, dryRun ? null : rev);
+				if (dryRun) {
+					return dryRunResult(
+						diffFlows(current.flows, replaceFlow(current.flows, id, flowObj)),
+					);
+				}
+				const snapshot = await snapshotLiveFlows(config, "update-flow", current.flows);
 				await callNodeRed("put", `/flow/${id}`, flowObj, config);
-				return { content: [{ type: "text", text: `Flow ${id} updated` }] };
+				// Single-flow endpoints always restart just that flow.
+				return deployedResult(
+					`Flow ${id} updated${snapshotNote(snapshot)}`,
+					deploymentImpact(
+						current.flows,
+						replaceFlow(current.flows, id, flowObj),
+						"flows",
+					),
+				);
 			} catch (error: any) {
-				return {
-					content: [{ type: "text", text: `Error: ${error?.message ?? String(error)}` }],
-				};
+				return toolErrorResult(error);
 			}
 		},
 	);
@@ -79,8 +204,8 @@ export default function registerFlowTools(server: McpServer, config: AutopilotMc
 		"Lists all flow tabs (workspaces) in the Node-RED instance.",
 		{},
 		async () => {
-			const flows = await callNodeRed("get", "/flows", null, config);
-			const tabs = (flows as any[])
+			const { flows } = await fetchFlows(config);
+			const tabs = flows
 				.filter((node) => node.type === "tab")
 				.map((node) => `- ${node.label || node.name || "Unnamed"} (ID: ${node.id})`);
 
@@ -92,23 +217,96 @@ export default function registerFlowTools(server: McpServer, config: AutopilotMc
 	server.tool(
 		"create-flow",
 		"Creates a new flow in the Node-RED instance. Args: flowJson (e.g.'{id: '91ad456e52b8', label: 'Sheet 1', nodes: [], configs: []}')",
-		{ flowJson: z.string().describe("New flow configuration in JSON") },
-		async ({ flowJson }) => {
+		{
+			flowJson: z.string().describe("New flow configuration in JSON"),
+			rev: revArg,
+			dryRun: z
+				.boolean()
+				.optional()
+				.describe("If true, return a diff against the live flows without deploying"),
+		},
+		async ({ flowJson, rev, dryRun }) => {
 			try {
 				const flowObj = JSON.parse(flowJson);
+				const current = await fetchFlowsAtRev(config, dryRun ? null : rev);
+				if (dryRun) {
+					// Node-RED assigns the real ID on create; the placeholder keeps the diff readable.
+					const id = String(flowObj?.id || "(new flow)");
+					return dryRunResult(
+						diffFlows(current.flows, replaceFlow(current.flows, id, flowObj)),
+					);
+				}
+				const snapshot = await snapshotLiveFlows(config, "create-flow", current.flows);
 				const result = await callNodeRed("post", "/flow", flowObj, config);
-				return {
-					content: [
-						{
-							type: "text",
-							text: `New flow created with ID: ${(result as any)?.id}`,
-						},
-					],
-				};
+				const newId = String((result as any)?.id ?? flowObj?.id ?? "");
+				return deployedResult(
+					`New flow created with ID: ${(result as any)?.id}${snapshotNote(snapshot)}`,
+					deploymentImpact(
+						current.flows,
+						replaceFlow(current.flows, newId, flowObj),
+						"flows",
+					),
+				);
 			} catch (error: any) {
-				return {
-					content: [{ type: "text", text: `Error: ${error?.message ?? String(error)}` }],
-				};
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Import a flow fragment (editor export) under fresh IDs
+	server.tool(
+		"import-flow-fragment",
+		"Imports a Node-RED export (the JSON the editor clipboard produces) into an existing tab or a new one. Every node gets a fresh ID and wires, z, g, link targets and config-node references are rewritten to match, so fragments can be pasted repeatedly without ID collisions. Args: fragmentJson (e.g.'[{id: 'a1', type: 'inject', wires: [['b2']]}, {id: 'b2', type: 'debug'}]') tab (e.g.'396c237c693dc')",
+		{
+			fragmentJson: z.string().describe("Node-RED export in JSON (node array)"),
+			tab: z
+				.string()
+				.optional()
+				.describe("Existing tab ID to import into (default: create a new tab)"),
+			tabLabel: z.string().optional().describe("Label for the new tab"),
+			reuseConfigNodes: z
+				.boolean()
+				.optional()
+				.describe(
+					"If true, reuse existing config nodes of the same type with matching properties instead of importing duplicates",
+				),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+			dryRun: z
+				.boolean()
+				.optional()
+				.describe("If true, return a diff against the live flows without deploying"),
+		},
+		async ({ fragmentJson, tab, tabLabel, reuseConfigNodes, rev, deploymentType, dryRun }) => {
+			try {
+				const fragment = parseFragment(fragmentJson);
+				const { nodesByType } = await config.nodeCatalog.getCatalog();
+				const options = { tab, tabLabel, reuseConfigNodes, nodesByType };
+				if (dryRun) {
+					const current = await fetchFlows(config);
+					const result = importFragment(current.flows, fragment, options);
+					return dryRunResult(diffFlows(current.flows, result.flows));
+				}
+				const result = await updateLiveFlows(
+					config,
+					"import-flow-fragment",
+					(flows) => importFragment(flows, fragment, options),
+					{ rev, deploymentType },
+				);
+				return textResult({
+					ok: true,
+					tab: result.tab,
+					createdTab: result.createdTab,
+					imported: result.imported,
+					idMap: result.idMap,
+					reusedConfigNodes: result.reusedConfigNodes,
+					linkedExistingNodes: result.linkedExistingNodes,
+					snapshot: result.snapshot,
+					rev: result.rev,
+					deployment: result.deployment,
+				});
+			} catch (error: any) {
+				return toolErrorResult(error);
 			}
 		},
 	);
@@ -117,15 +315,25 @@ export default function registerFlowTools(server: McpServer, config: AutopilotMc
 	server.tool(
 		"delete-flow",
 		"Deletes a specific flow from the Node-RED instance by its ID. Args: id (e.g.'396c237c693dc')",
-		{ id: z.string().describe("Flow ID to delete") },
-		async ({ id }) => {
+		{
+			id: z.string().describe("Flow ID to delete"),
+			rev: revArg,
+		},
+		async ({ id, rev }) => {
 			try {
+				const current = await fetchFlowsAtRev(config, rev);
+				const snapshot = await snapshotLiveFlows(config, "delete-flow", current.flows);
 				await callNodeRed("delete", `/flow/${id}`, null, config);
-				return { content: [{ type: "text", text: `Flow ${id} deleted` }] };
+				return deployedResult(
+					`Flow ${id} deleted${snapshotNote(snapshot)}`,
+					deploymentImpact(
+						current.flows,
+						current.flows.filter((n) => n.id !== id && n.z !== id),
+						"flows",
+					),
+				);
 			} catch (error: any) {
-				return {
-					content: [{ type: "text", text: `Error: ${error?.message ?? String(error)}` }],
-				};
+				return toolErrorResult(error);
 			}
 		},
 	);
@@ -137,9 +345,7 @@ export default function registerFlowTools(server: McpServer, config: AutopilotMc
 		{},
 		async () => {
 			const state = await callNodeRed("get", "/flows/state", null, config);
-			return {
-				content: [{ type: "text", text: JSON.stringify(state, null, 2) }],
-			};
+			return textResult(state);
 		},
 	);
 
@@ -147,16 +353,41 @@ export default function registerFlowTools(server: McpServer, config: AutopilotMc
 	server.tool(
 		"set-flows-state",
 		"Updates the deployment state of all flows in the Node-RED instance.",
-		{ stateJson: z.string().describe("Flows state in JSON") },
-		async ({ stateJson }) => {
+		{
+			stateJson: z.string().describe("Flows state in JSON"),
+			rev: revArg,
+		},
+		async ({ stateJson, rev }) => {
 			try {
 				const stateObj = JSON.parse(stateJson);
+				const current = await fetchFlowsAtRev(config, rev);
+				const snapshot = await snapshotLiveFlows(config, "set-flows-state", current.flows);
 				await callNodeRed("post", "/flows/state", stateObj, config);
-				return { content: [{ type: "text", text: "Flows state updated" }] };
-			} catch (error: any) {
 				return {
-					content: [{ type: "text", text: `Error: ${error?.message ?? String(error)}` }],
+					content: [
+						{ type: "text", text: `Flows state updated${snapshotNote(snapshot)}` },
+					],
 				};
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+
+	// Reload flows from storage
+	server.tool(
+		"reload-flows",
+		"Restarts all flows by reloading them from Node-RED's storage (a 'reload' deployment). Nothing is changed, but every node restarts.",
+		{},
+		async () => {
+			try {
+				const { flows } = await fetchFlows(config);
+				await callNodeRed("post", "/flows", null, config, {
+					headers: { "Node-RED-Deployment-Type": "reload" },
+				});
+				return deployedResult("Flows reloaded", deploymentImpact(flows, flows, "reload"));
+			} catch (error: any) {
+				return toolErrorResult(error);
 			}
 		},
 	);
@@ -167,25 +398,55 @@ export default function registerFlowTools(server: McpServer, config: AutopilotMc
 		"Retrieves a human-readable, formatted list of all flows in the Node-RED instance.",
 		{},
 		async () => {
-			const flows = await callNodeRed("get", "/flows", null, config);
-			const formatted = formatFlowsOutput(flows as any[]);
+			const { flows } = await fetchFlows(config);
+			const formatted = formatFlowsOutput(flows);
 
-			return {
-				content: [{ type: "text", text: JSON.stringify(formatted, null, 2) }],
-			};
+			return textResult(formatted);
 		},
 	);
 
 	// Structured flows output with visualization
 	server.tool(
 		"visualize-flows",
-		"Generates a graph-like visualization of the flows in the Node-RED instance.",
-		{},
-		async () => {
-			const flows = (await callNodeRed("get", "/flows", null, config)) as any[];
+		"Generates a visualization of the flows in the Node-RED instance. format 'summary' (default) lists node types per tab; 'mermaid' and 'dot' render the actual wiring graph with port numbers, group subgraphs and dashed link out -> link in edges. Args: format tab (optional) focus (optional node ID) depth (optional)",
+		{
+			format: z
+				.enum(["summary", "mermaid", "dot"])
+				.optional()
+				.describe("Output format (default summary)"),
+			tab: z.string().optional().describe("Optional tab or subflow ID to render"),
+			focus: z
+				.string()
+				.optional()
+				.describe("Optional node ID; only render its neighborhood (mermaid/dot)"),
+			depth: z
+				.number()
+				.int()
+				.min(0)
+				.max(20)
+				.optional()
+				.describe("Neighborhood size in hops around focus (default 2)"),
+		},
+		async ({ format = "summary", tab, focus, depth }) => {
+			const { flows } = await fetchFlows(config);
+
+			if (format !== "summary") {
+				try {
+					const catalog = await config.nodeCatalog.getCatalog();
+					const graph = renderFlowGraph(flows, catalog.nodesByType, {
+						format,
+						tab,
+						focus,
+						depth,
+					});
+					return { content: [{ type: "text", text: graph.text }] };
+				} catch (error: any) {
+					return toolErrorResult(error);
+				}
+			}
 
 			// Group by tabs
-			const tabs = flows.filter((node) => node.type === "tab");
+			const tabs = flows.filter((node) => node.type === "tab" && (!tab || node.id === tab));
 			const nodesByTab: Record<string, any[]> = {};
 
 			for (const tab of tabs) {
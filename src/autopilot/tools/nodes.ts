@@ -4,8 +4,9 @@
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { validateNodeConfig } from "../catalog/index.js";
 import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
-import { callNodeRed } from "../utils.js";
+import { callNodeRed, fetchFlows, textResult, toolErrorResult } from "../utils.js";
 
 export default function registerNodeTools(server: McpServer, config: AutopilotMcpConfig) {
 	const catalog = config.nodeCatalog;
@@ -23,65 +24,33 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 			try {
 				// `/settings` is a lightweight Admin API endpoint and proves auth/prefix are correct.
 				const settings = await callNodeRed("get", "/settings", null, config);
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									ok: true,
-									info,
-									settingsSummary: {
-										httpAdminRoot: (settings as any)?.httpAdminRoot,
-										version: (settings as any)?.version,
-									},
-								},
-								null,
-								2,
-							),
-						},
-					],
-				};
+				return textResult({
+					ok: true,
+					info,
+					settingsSummary: {
+						httpAdminRoot: (settings as any)?.httpAdminRoot,
+						version: (settings as any)?.version,
+					},
+				});
 			} catch (e: any) {
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{ ok: false, info, error: String(e?.message || e) },
-								null,
-								2,
-							),
-						},
-					],
-				};
+				return textResult({ ok: false, info, error: String(e?.message || e) });
 			}
 		},
 	);
 
 	server.tool(
 		"catalog-refresh",
-		"Refreshes the cached node catalog by fetching and parsing the Node-RED `/nodes` HTML.",
+		"Refreshes the cached node catalog by fetching the Node-RED `/nodes` HTML. It is only re-parsed when its content hash changed; the parsed catalog is persisted so new sessions start from it.",
 		{},
 		async () => {
 			const c = await catalog.refresh();
-			return {
-				content: [
-					{
-						type: "text",
-						text: JSON.stringify(
-							{
-								refreshedAt: c.ts,
-								nodeCount: c.nodes.length,
-								warningCount: (c.warnings || []).length,
-								warnings: c.warnings || [],
-							},
-							null,
-							2,
-						),
-					},
-				],
-			};
+			return textResult({
+				refreshedAt: c.ts,
+				hash: c.hash,
+				nodeCount: c.nodes.length,
+				warningCount: (c.warnings || []).length,
+				warnings: c.warnings || [],
+			});
 		},
 	);
 
@@ -96,15 +65,13 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 		},
 		async ({ customOnly }) => {
 			const nodes = await catalog.list({ customOnly: !!customOnly });
-			return {
-				content: [{ type: "text", text: JSON.stringify(nodes, null, 2) }],
-			};
+			return textResult(nodes);
 		},
 	);
 
 	server.tool(
 		"catalog-get-node",
-		"Returns the full structured schema for a single node type (including defaults, help, and editor template when available).",
+		"Returns the full structured schema for a single node type (including defaults, a JSON Schema generated from them as configSchema, help as text and markdown with the documented msg properties of each input/output port, and editor template when available).",
 		{
 			type: z.string().describe('Node type, e.g. "tl-output"'),
 			includeHtml: z
@@ -115,38 +82,49 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 		async ({ type, includeHtml }) => {
 			const node = await catalog.getNode(type);
 			if (!node) {
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{ ok: false, error: `Unknown node type: ${type}` },
-								null,
-								2,
-							),
-						},
-					],
-				};
+				return textResult({ ok: false, error: `Unknown node type: ${type}` });
 			}
 			const out: any = { ...node };
 			if (!includeHtml) {
 				if (out.help) out.help = { ...out.help, html: undefined };
 				if (out.template) out.template = { ...out.template, html: undefined };
 			}
-			return {
-				content: [
-					{
-						type: "text",
-						text: JSON.stringify({ ok: true, node: out }, null, 2),
-					},
-				],
-			};
+			return textResult({ ok: true, node: out });
+		},
+	);
+
+	server.tool(
+		"validate-node-config",
+		'Checks a proposed node object against the JSON Schema generated from its type\'s defaults: required fields, value types, RED.validators.number/regex/typedInput constraints and config-node references (resolved against the live flows). Use before add-node or deploy to catch bad configurations. Args: nodeJson (e.g.\'{"type":"mqtt out","topic":"stage/lights","broker":"a1b2"}\')',
+		{
+			nodeJson: z.string().describe("Node object in JSON"),
+			type: z.string().optional().describe("Node type (default: the object's type)"),
+			checkRefs: z
+				.boolean()
+				.optional()
+				.describe("If false, skip resolving config-node references (default true)"),
+		},
+		async ({ nodeJson, type, checkRefs }) => {
+			try {
+				const node = JSON.parse(nodeJson);
+				if (!node || typeof node !== "object" || Array.isArray(node)) {
+					throw new Error("nodeJson must be a single node object");
+				}
+				const nodeType = String(type ?? node.type ?? "");
+				const catalogNode = await catalog.getNode(nodeType);
+				if (!catalogNode) throw new Error(`Unknown node type: ${nodeType}`);
+				const flows = checkRefs === false ? undefined : (await fetchFlows(config)).flows;
+				const result = validateNodeConfig(node, catalogNode, { flows });
+				return textResult(result);
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
 		},
 	);
 
 	server.tool(
 		"catalog-search",
-		"Searches installed node documentation (help text, defaults, metadata). Best for queries like 'group progress', 'OSC', 'keypoint'.",
+		"Searches installed node documentation (type, palette label, module, category, defaults, help text) with ranked, typo-tolerant multi-word matching; type and label matches rank above help text. Each result lists the fields that matched with the terms highlighted as **term**. Best for queries like 'group progress osc', 'OSC', 'keypoint'.",
 		{
 			query: z.string().describe("Search query"),
 			customOnly: z
@@ -165,9 +143,7 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 				category,
 				limit,
 			});
-			return {
-				content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-			};
+			return textResult(results);
 		},
 	);
 
@@ -210,9 +186,7 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 				defaults: n.defaults ?? null,
 				helpText: n.help?.text ? String(n.help.text).slice(0, 800) : "",
 			}));
-			return {
-				content: [{ type: "text", text: JSON.stringify(list, null, 2) }],
-			};
+			return textResult(list);
 		},
 	);
 
@@ -223,9 +197,7 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 		{ module: z.string().describe("Node module name") },
 		async ({ module }) => {
 			const info = await callNodeRed("get", `/nodes/${module}`, null, config);
-			return {
-				content: [{ type: "text", text: JSON.stringify(info, null, 2) }],
-			};
+			return textResult(info);
 		},
 	);
 
@@ -239,9 +211,7 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 		},
 		async ({ module, set }) => {
 			const info = await callNodeRed("get", `/nodes/${module}/${set}`, null, config);
-			return {
-				content: [{ type: "text", text: JSON.stringify(info, null, 2) }],
-			};
+			return textResult(info);
 		},
 	);
 
@@ -252,9 +222,7 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 		{ module: z.string().describe("Node module name") },
 		async ({ module }) => {
 			const info = await callNodeRed("post", "/nodes", { module }, config);
-			return {
-				content: [{ type: "text", text: JSON.stringify(info, null, 2) }],
-			};
+			return textResult(info);
 		},
 	);
 
@@ -319,7 +287,7 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 		"Searches for nodes in the Node-RED instance by their type. Args: nodeType (e.g.'inject')",
 		{ nodeType: z.string().describe("Node type to search for") },
 		async ({ nodeType }) => {
-			const flows = (await callNodeRed("get", "/flows", null, config)) as any[];
+			const { flows } = await fetchFlows(config);
 			const nodes = flows.filter((node) => node.type === nodeType);
 			return {
 				content: [
@@ -344,7 +312,7 @@ export default function registerNodeTools(server: McpServer, config: AutopilotMc
 			property: z.string().optional().describe("Specific property to search (optional)"),
 		},
 		async ({ query, property }) => {
-			const flows = (await callNodeRed("get", "/flows", null, config)) as any[];
+			const { flows } = await fetchFlows(config);
 			const nodes = flows.filter((node) => {
 				if (property) {
 					return node[property] && String(node[property]).includes(query);
@@ -1,214 +1,39 @@
 /**
  * MCP tools for turning intent -> Node-RED flow guidance.
  *
- * Keep this conservative: suggest wiring + message mappings, without auto-deploy.
+ * Keep this conservative: suggest wiring + message mappings, and only deploy when the caller
+ * explicitly asks for it with `apply`.
  */
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { parseFragment, updateLiveFlows } from "../flows/index.js";
+import {
+	buildFlowNodes,
+	buildKeypointTaxonomy,
+	explainFlow,
+	matchRecipe,
+	type PlannedNode,
+	parseIntent,
+	planClause,
+	protocolAvailability,
+	RECIPE_KV_PREFIX,
+	simulateFlow,
+	validateRecipe,
+} from "../recipes/index.js";
 import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
-
-function parseHost(intent: string) {
-	const s = String(intent || "");
-	const ipMatch = s.match(/\b(\d{1,3}(?:\.\d{1,3}){3})\b/);
-	if (ipMatch) return ipMatch[1];
-	const localhost = s.match(/\blocalhost\b/i);
-	if (localhost) return "127.0.0.1";
-	return null;
-}
-
-function parsePort(intent: string) {
-	const s = String(intent || "");
-	const m1 = s.match(/\bport\s+(\d{2,5})\b/i);
-	if (m1) return Number.parseInt(m1[1], 10);
-	const m2 = s.match(/:(\d{2,5})\b/);
-	if (m2) return Number.parseInt(m2[1], 10);
-	return null;
-}
-
-function parseOscAddress(intent: string) {
-	const s = String(intent || "");
-	const m = s.match(/(\/[A-Za-z0-9_/\-.:]+)\b/);
-	if (m) return m[1];
-	// Default addresses based on common phrases.
-	if (/\bgroup\b/i.test(s) && /\bprogress\b/i.test(s)) return "/group/progress";
-	if (/\bkeypoint\b/i.test(s) && /\bprogress\b/i.test(s)) return "/keypoint/progress";
-	if (/\bbpm\b/i.test(s)) return "/bpm";
-	if (/\bbeat\b/i.test(s)) return "/beat";
-	return "/tl";
-}
-
-function wantsMidi(intent: string) {
-	return /\bmidi\b/i.test(String(intent || ""));
-}
-
-function wantsGroupProgress(intent: string) {
-	const s = String(intent || "");
-	return /\bgroup\b/i.test(s) && /\bprogress\b/i.test(s);
-}
-
-function wantsKeypointProgress(intent: string) {
-	const s = String(intent || "");
-	return /\bkeypoint\b/i.test(s) && /\bprogress\b/i.test(s);
-}
-
-function wantsBpm(intent: string) {
-	return /\bbpm\b/i.test(String(intent || ""));
-}
-
-function wantsBeat(intent: string) {
-	return /\bbeat\b/i.test(String(intent || ""));
-}
-
-function wantsSongDetailsWidget(intent: string) {
-	const s = String(intent || "").toLowerCase();
-	return s.includes("song details") || s.includes("now playing") || s.includes("playhead");
-}
-
-function wantsKeypointDetailsWidget(intent: string) {
-	const s = String(intent || "").toLowerCase();
-	return s.includes("keypoint details") || s.includes("current keypoint widget");
-}
-
-function wantsUpcomingKeypointsWidget(intent: string) {
-	const s = String(intent || "").toLowerCase();
-	return s.includes("upcoming keypoints") || s.includes("next keypoints widget");
-}
-
-function wantsEnter(intent: string) {
-	const s = String(intent || "").toLowerCase();
-	return (
-		s.includes("enter") ||
-		s.includes("on start") ||
-		s.includes("when it starts") ||
-		s.includes("when it begins")
-	);
-}
-
-function wantsExit(intent: string) {
-	const s = String(intent || "").toLowerCase();
-	return (
-		s.includes("exit") ||
-		s.includes("leave") ||
-		s.includes("on end") ||
-		s.includes("when it ends")
-	);
-}
-
-function wantsContinuous(intent: string) {
-	const s = String(intent || "").toLowerCase();
-	return (
-		s.includes("while") ||
-		s.includes("continuous") ||
-		s.includes("stream") ||
-		s.includes("progress") ||
-		s.includes("every") ||
-		s.includes("animate")
-	);
-}
-
-function wantsThrottle(intent: string) {
-	const s = String(intent || "").toLowerCase();
-	return (
-		s.includes("debounce") ||
-		s.includes("throttle") ||
-		s.includes("quantize") ||
-		s.includes("grid") ||
-		s.includes("tick")
-	);
-}
-
-function parseDivision(intent: string) {
-	// Accept 1, 1/2, 1/4, 1/8
-	const s = String(intent || "");
-	const m = s.match(/\b(1\/8|1\/4|1\/2|1)\b/);
-	return m ? m[1] : null;
-}
-
-function parseKeypointId(intent: string) {
-	// Order matters: prefer longer/multiword matches first.
-	const s = String(intent || "").toLowerCase();
-	const rules = [
-		{ re: /\brhythmic\s+build\b/, id: "rhythmic-build" },
-		{ re: /\bdrive\s+break\b/, id: "drive-break" },
-		{ re: /\bpre[\s-]?drop\b/, id: "pre-drop" },
-		{ re: /\bfake\s+drop\b/, id: "fake-drop" },
-		{ re: /\bdrop\s+break\b/, id: "drop-break" },
-		{ re: /\bbreak\s*down\b/, id: "breakdown" },
-		{ re: /\bcurrent\s+keypoint\b/, id: "current" },
-		{ re: /\bnext\s+keypoint\b/, id: "next" },
-		{ re: /\bcurrent\s+(track|song)\b/, id: "current-track" },
-		{ re: /\bdrive\b/, id: "drive" },
-		{ re: /\bbuild\b/, id: "build" },
-		{ re: /\bdrop\b/, id: "drop" },
-		{ re: /\bsolo\b/, id: "solo" },
-		{ re: /\boutro\b/, id: "outro" },
-		{ re: /\bunknown\b/, id: "unknown" },
-	];
-	for (const r of rules) {
-		if (r.re.test(s)) return r.id;
-	}
-	return null;
-}
-
-function keypointIdToNodeType(id: string | null) {
-	if (!id) return null;
-	if (id === "current") return "tl-keypoint-current";
-	if (id === "next") return "tl-keypoint-next";
-	if (id === "current-track") return "tl-current-track";
-	return `tl-keypoint-${id}`;
-}
-
-function pickValueMapping(intent: string, triggerType: string) {
-	// Returns {label, payloadExpr, topic}
-	const address = parseOscAddress(intent);
-	if (wantsGroupProgress(intent)) {
-		return {
-			label: "group progress (0..1)",
-			payloadExpr: "msg.payload.currentKeypointGroupProgress",
-			topic: address,
-			vizType: "progress",
-		};
-	}
-	if (wantsKeypointProgress(intent)) {
-		return {
-			label: "keypoint progress (0..1)",
-			payloadExpr: "msg.payload.currentKeypointProgress",
-			topic: address,
-			vizType: "progress",
-		};
-	}
-	if (wantsBpm(intent)) {
-		// tl-beat outputs bpm at msg.payload.bpm; current-track also contains bpm.
-		const expr = triggerType === "tl-beat" ? "msg.payload.bpm" : "msg.payload.bpm";
-		return { label: "BPM", payloadExpr: expr, topic: address, vizType: "text" };
-	}
-	if (wantsBeat(intent)) {
-		return {
-			label: "beat (beatInMeasure)",
-			payloadExpr: "msg.payload.beatInMeasure",
-			topic: address,
-			vizType: "text",
-		};
-	}
-	// Default: pass through original payload, set topic.
-	return {
-		label: "pass-through payload",
-		payloadExpr: "msg.payload",
-		topic: address,
-		vizType: "led",
-	};
-}
+import { fetchFlows, textResult, toolErrorResult } from "../utils.js";
+import { deploymentTypeArg, revArg } from "./args.js";
 
 export default function registerRecipeTools(server: McpServer, config: AutopilotMcpConfig) {
 	server.tool(
 		"suggest-flow",
-		"Suggests a Node-RED wiring plan (nodes + message mappings) for a natural-language automation intent. Uses the running Node-RED instance’s installed nodes, with special support for Time-Line custom nodes.",
+		"Suggests a Node-RED wiring plan (nodes + message mappings) for a natural-language automation intent. Uses the running Node-RED instance’s installed nodes, with special support for Time-Line custom nodes. The result includes a deployable node array (flow.nodes) with IDs, wires, catalog defaults and reused or new config nodes. Actions: OSC or MIDI (notes, CC incl. 14-bit, program changes; msg.midi is built for you) via tl-output, or MQTT, HTTP request, WebSocket and UDP via core nodes (protocols reports which are installed). Values can be rescaled, clamped, inverted, eased or quantized via a range or function node (e.g. 'map group progress to 0..255 with ease-in'). Set apply to deploy it to a new or chosen tab.",
 		{
 			intent: z
 				.string()
 				.describe(
-					"Natural language intent, e.g. 'on a drop send osc to 127.0.0.1 with the group progress'",
+					"Natural language intent, e.g. 'on a drop send osc to 127.0.0.1 with the group progress' or 'publish group progress to mqtt topic stage/lights'",
 				),
 			customOnly: z
 				.boolean()
@@ -216,276 +41,302 @@ export default function registerRecipeTools(server: McpServer, config: Autopilot
 				.describe(
 					"If true, restrict node suggestions to custom Time-Line nodes when possible.",
 				),
+			apply: z
+				.boolean()
+				.optional()
+				.describe("If true, deploy the generated nodes instead of only returning them"),
+			tab: z
+				.string()
+				.optional()
+				.describe("Existing tab ID for the generated nodes (default: a new tab)"),
+			tabLabel: z.string().optional().describe("Label for the new tab"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
 		},
-		async ({ intent, customOnly }) => {
+		async ({ intent, customOnly, apply, tab, tabLabel, rev, deploymentType }) => {
 			const cat = config.nodeCatalog;
 			// Ensure catalog is warm (but don’t force refresh unless needed).
-			await cat.getCatalog();
-
-			const host = parseHost(intent) || "127.0.0.1";
-			const port = parsePort(intent) || 8000;
-			const oscAddress = parseOscAddress(intent);
-			const protocol = wantsMidi(intent) ? "midi" : "osc";
+			const { nodesByType } = await cat.getCatalog();
 
-			const keypointId = parseKeypointId(intent);
-			const triggerType =
-				(wantsBeat(intent) && "tl-beat") ||
-				keypointIdToNodeType(keypointId) ||
-				"tl-keypoint-current";
-
-			const timing = (() => {
-				if (triggerType === "tl-beat") return { mode: "stream", output: "output" };
-				if (triggerType === "tl-current-track") return { mode: "stream", output: "stream" };
-				// Keypoint nodes: prefer stream for progress/continuous; else event.
-				const continuous = wantsContinuous(intent);
-				const enter = wantsEnter(intent);
-				const exit = wantsExit(intent);
-				if (continuous || wantsGroupProgress(intent) || wantsKeypointProgress(intent)) {
-					return { mode: "stream", output: "stream" };
+			const parsed = parseIntent(intent, {
+				keypointTypes: buildKeypointTaxonomy(nodesByType),
+			});
+			const clauses = [];
+			for (const [i, clause] of parsed.clauses.entries()) {
+				const matched = await config.recipes.match(clause.text);
+				clauses.push(planClause(clause, i, nodesByType, matched?.recipe));
+				// Words a recipe matched on are no longer unparsed.
+				for (const span of matched?.spans ?? []) {
+					const start = clause.start + span.start;
+					const end = clause.start + span.end;
+					parsed.unparsed = parsed.unparsed.filter(
+						(u) => u.end <= start || u.start >= end,
+					);
 				}
-				if (enter || exit)
-					return {
-						mode: "event",
-						output: "event",
-						event: exit ? "exit" : "enter",
-					};
-				// Default: event enter (common “on drop …”)
-				return { mode: "event", output: "event", event: "enter" };
-			})();
-
-			const valueMapping = pickValueMapping(intent, triggerType);
-
-			const outputType = "tl-output";
-			const outputServerType = "tl-output-server";
-			const debounceType = "tl-bpm-debounce";
-
-			const trigger = await cat.getNode(triggerType);
-			const output = await cat.getNode(outputType);
-			const outputServer = await cat.getNode(outputServerType);
-			const debounce = await cat.getNode(debounceType);
+			}
 
-			const missing: string[] = [];
-			if (!trigger) missing.push(triggerType);
-			if (!output) missing.push(outputType);
-			if (!outputServer) missing.push(outputServerType);
+			// Clauses that send to the same server, broker or socket share one config node.
+			const plan = new Map<string, PlannedNode>();
+			for (const clause of clauses) {
+				for (const node of clause.plan) if (!plan.has(node.key)) plan.set(node.key, node);
+			}
+			const missing = [...new Set(clauses.flatMap((c) => c.missingNodes))];
 
-			const steps: any[] = [];
+			const response: any = {
+				intent,
+				parsed,
+				unparsed: parsed.unparsed,
+				missingNodes: missing,
+				protocols: protocolAvailability(nodesByType),
+				clauses: clauses.map(
+					({ plan: _plan, configKey: _key, configRef: _ref, ...clause }) => clause,
+				),
+			};
 
-			// Dashboard widget intents (display-only) are also supported.
-			if (wantsSongDetailsWidget(intent)) {
-				steps.push({
-					step: "1",
-					node: "ui-tl-song-details",
-					role: "dashboard",
-					notes: "Wire a TL keypoint node’s *stream* output (or any msg.payload currentTrack snapshot) into this widget.",
-				});
-			}
-			if (wantsKeypointDetailsWidget(intent)) {
-				steps.push({
-					step: "1",
-					node: "ui-tl-keypoint-details",
-					role: "dashboard",
-					notes: "Wire any tl-keypoint-* node’s *event* output into this widget (it listens to enter/exit edges).",
+			try {
+				if (apply) {
+					if (missing.length) {
+						throw new Error(`Missing node types: ${missing.join(", ")}`);
+					}
+					const result = await updateLiveFlows(
+						config,
+						"suggest-flow",
+						(flows) => {
+							const built = buildFlowNodes([...plan.values()], {
+								nodesByType,
+								flows,
+								tab,
+								tabLabel,
+							});
+							return { flows: [...flows, ...built.nodes], built };
+						},
+						{ rev, deploymentType },
+					);
+					response.flow = result.built;
+					response.applied = {
+						snapshot: result.snapshot,
+						rev: result.rev,
+						deployment: result.deployment,
+					};
+				} else {
+					// Live flows are only needed to reuse existing config nodes.
+					const flows = await fetchFlows(config)
+						.then((r) => r.flows)
+						.catch(() => []);
+					response.flow = buildFlowNodes([...plan.values()], {
+						nodesByType,
+						flows,
+						tab,
+						tabLabel,
+					});
+				}
+				// Point the prose plans at the config nodes that were actually chosen.
+				clauses.forEach((clause, i) => {
+					for (const step of response.clauses[i].steps) {
+						if (step.role === "sink" && clause.configKey && clause.configRef)
+							step.config[clause.configRef] = response.flow.ids[clause.configKey];
+					}
 				});
+			} catch (error: any) {
+				return toolErrorResult(error);
 			}
-			if (wantsUpcomingKeypointsWidget(intent)) {
-				steps.push({
-					step: "1",
-					node: "ui-tl-upcoming-keypoints",
-					role: "dashboard",
-					notes: "Wire tl-current-track output (or any msg.payload currentTrack snapshot) into this widget. It uses payload.keypoints and payload.currentPositionMs.",
-				});
+
+			if (customOnly) {
+				try {
+					response.customNodes = await cat.list({ customOnly: true });
+				} catch {
+					// ignore
+				}
 			}
 
-			steps.push({
-				step: String(steps.length + 1),
-				node: triggerType,
-				role: "trigger",
-				notes:
-					triggerType === "tl-beat"
-						? "Emits on beat changes (topic tl/beat)."
-						: triggerType === "tl-current-track"
-							? "Use output 2 (*stream*) for ~30fps snapshots; output 1 (*change*) only when metadata changes."
-							: timing.mode === "stream"
-								? "Use the *stream* output for continuous snapshots while active."
-								: `Use the *event* output and filter for msg.payload.event === "${(timing as any).event}".`,
-				output: (timing as any).output,
-			});
+			return textResult(response);
+		},
+	);
 
-			if ((timing as any).mode === "event" && triggerType.startsWith("tl-keypoint")) {
-				steps.push({
-					step: String(steps.length + 1),
-					node: "switch",
-					role: "filter",
-					notes: `Only pass through ${(timing as any).event} edges.`,
-					filter: {
-						property: "payload.event",
-						equals: (timing as any).event,
-					},
-				});
+	// Explain a tab in plain language
+	server.tool(
+		"explain-flow",
+		"Explains what an existing tab does: one plain-language sentence per trigger -> action chain (e.g. 'When a drop keypoint is entered, sends group progress to OSC /group/progress at 127.0.0.1:8000.'), with the nodes on each path, Time-Line payload notes for the trigger and a help summary per node type. Args: tab (e.g.'396c237c693dc' or 'Lights')",
+		{
+			tab: z.string().describe("Tab ID or label"),
+			maxChains: z
+				.number()
+				.int()
+				.min(1)
+				.max(500)
+				.optional()
+				.describe("Max chains to describe (default 100)"),
+		},
+		async ({ tab, maxChains }) => {
+			try {
+				const [{ flows }, { nodesByType }] = await Promise.all([
+					fetchFlows(config),
+					config.nodeCatalog.getCatalog(),
+				]);
+				const result = explainFlow(flows, tab, { nodesByType, maxChains });
+				return textResult(result);
+			} catch (error: any) {
+				return toolErrorResult(error);
 			}
+		},
+	);
 
-			steps.push({
-				step: String(steps.length + 1),
-				node: "change",
-				role: "mapping",
-				notes: `Set msg.payload to ${valueMapping.label}. Set msg.topic to OSC address.`,
-				mapping: {
-					set: [
-						{ target: "msg.payload", value: valueMapping.payloadExpr },
-						{ target: "msg.topic", value: oscAddress },
-					],
-				},
-			});
-
-			// Optional BPM-quantized throttle for high-frequency streams.
-			const shouldThrottle =
-				(timing as any).mode === "stream" &&
-				(wantsThrottle(intent) ||
-					wantsGroupProgress(intent) ||
-					wantsKeypointProgress(intent));
-			if (shouldThrottle && debounce) {
-				const division = parseDivision(intent) || "1/4";
-				steps.push({
-					step: String(steps.length + 1),
-					node: debounceType,
-					role: "throttle",
-					notes:
-						`Optional: quantize to BPM grid (${division}). ` +
-						"This buffers the latest message and emits only on tick; a null/undefined payload clears pending values.",
-					config: { division },
-				});
+	// Simulate a flow offline over a synthetic track
+	server.tool(
+		"simulate-flow",
+		'Runs synthetic Time-Line messages through a flow without Node-RED and reports what reaches each sink over a simulated track (default: 32 bars at 128 BPM with intro/build/drop/outro keypoints at bars 1/9/17/25). Models tl-keypoint-*, tl-beat, tl-current-track, inject, switch, change, range, delay and tl-bpm-debounce; other nodes (including function nodes, which are not executed) pass messages through and are listed in warnings. Simulates a live tab or a node array such as suggest-flow\'s flow.nodes. Args: tab (e.g.\'Lights\'), flowsJson (e.g.\'[{"id":"a","type":"tl-beat",...}]\'), keypoints (e.g.[{"id":"drop","bar":17}])',
+		{
+			tab: z
+				.string()
+				.optional()
+				.describe("Tab ID or label (required unless flowsJson is given)"),
+			flowsJson: z
+				.string()
+				.optional()
+				.describe(
+					"Node array to simulate instead of the live flows (e.g. suggest-flow's flow.nodes)",
+				),
+			bpm: z.number().min(20).max(300).optional().describe("Track tempo (default 128)"),
+			bars: z
+				.number()
+				.int()
+				.min(1)
+				.max(512)
+				.optional()
+				.describe("Track length in bars (default 32)"),
+			beatsPerBar: z.number().int().min(1).max(16).optional().describe("Default 4"),
+			keypoints: z
+				.array(
+					z.object({
+						id: z.string().describe("Keypoint ID, e.g. 'drop'"),
+						bar: z.number().int().min(1).describe("1-based bar the keypoint starts at"),
+						group: z
+							.string()
+							.optional()
+							.describe("Consecutive keypoints with the same group form one group"),
+					}),
+				)
+				.optional()
+				.describe("Keypoints on the track; each lasts until the next one"),
+			streamHz: z
+				.number()
+				.min(1)
+				.max(60)
+				.optional()
+				.describe("Stream output rate in messages per second (default 10)"),
+			maxSamples: z
+				.number()
+				.int()
+				.min(1)
+				.max(200)
+				.optional()
+				.describe("Deliveries listed per sink (default 16)"),
+		},
+		async ({ tab, flowsJson, ...timeline }) => {
+			try {
+				if (!tab && !flowsJson) throw new Error("Provide tab or flowsJson");
+				const [flows, { nodesByType }] = await Promise.all([
+					flowsJson ? parseFragment(flowsJson) : fetchFlows(config).then((r) => r.flows),
+					config.nodeCatalog.getCatalog(),
+				]);
+				const result = simulateFlow(flows, { nodesByType, tab, ...timeline });
+				return textResult(result);
+			} catch (error: any) {
+				return toolErrorResult(error);
 			}
+		},
+	);
 
-			if (protocol === "osc") {
-				steps.push({
-					step: String(steps.length + 1),
-					node: outputServerType,
-					role: "config",
-					notes: `Create/reuse an OSC server config: host=${host}, port=${port}, udpFamily=udp4.`,
-					config: { protocol: "osc", host, port, udpFamily: "udp4" },
-				});
-				steps.push({
-					step: String(steps.length + 1),
-					node: outputType,
-					role: "sink",
-					notes: "Wire into tl-output. Leave Address blank to use msg.topic as OSC address, or set Address to a fixed address.",
-					config: {
-						server: "(select your tl-output-server)",
-						address: "(blank to use msg.topic)",
-						vizType: valueMapping.vizType || "led",
-					},
-				});
-			} else {
-				steps.push({
-					step: String(steps.length + 1),
-					node: outputServerType,
-					role: "config",
-					notes: "Create/reuse a MIDI server config: set protocol=midi and pick midiPort. Then send msg.payload as raw bytes (e.g. [144,60,127]) or msg.midi (type/channel/data).",
-					config: { protocol: "midi", midiPort: 0 },
-				});
-				steps.push({
-					step: String(steps.length + 1),
-					node: outputType,
-					role: "sink",
-					notes: "Wire into tl-output. For MIDI, msg.topic is ignored; msg.payload must be bytes/Buffer or msg.midi object.",
-					config: {
-						server: "(select your tl-output-server)",
-						vizType: valueMapping.vizType || "led",
-					},
-				});
+	// Keypoint vocabulary
+	server.tool(
+		"list-keypoint-types",
+		"Lists the keypoint types intents can refer to, built from the installed tl-keypoint-* nodes: ID, node type, palette label, help summary and the phrases that select it (e.g. 'pre drop', 'pre-drop', 'predrop'). relative marks tl-keypoint-current/next, which follow the playhead. Falls back to the built-in keypoints when no Time-Line keypoint nodes are installed.",
+		{},
+		async () => {
+			try {
+				const { nodesByType } = await config.nodeCatalog.getCatalog();
+				const keypointTypes = buildKeypointTaxonomy(nodesByType);
+				return textResult({ source: keypointTypes[0]?.source ?? "builtin", keypointTypes });
+			} catch (error: any) {
+				return toolErrorResult(error);
 			}
+		},
+	);
 
-			const wiring: any[] = [];
-			const triggerOut =
-				triggerType === "tl-current-track"
-					? "output(stream)"
-					: triggerType === "tl-beat"
-						? "output"
-						: (timing as any).mode === "stream"
-							? "output(stream)"
-							: "output(event)";
+	// List recipes
+	server.tool(
+		"list-recipes",
+		"Lists the declarative recipes suggest-flow can apply (e.g. 'strobe on beat'), loaded from the bundled recipe asset and the RECIPES_KV namespace. Invalid recipe documents are reported as warnings.",
+		{
+			refresh: z
+				.boolean()
+				.optional()
+				.describe("If true, reload recipes instead of using the cache"),
+		},
+		async ({ refresh }) => {
+			const result = await config.recipes.list({ force: !!refresh });
+			return textResult(result);
+		},
+	);
 
-			let current = `${triggerType}:${triggerOut}`;
-			if ((timing as any).mode === "event" && triggerType.startsWith("tl-keypoint")) {
-				wiring.push({ from: current, to: "switch" });
-				current = "switch";
-			}
-			wiring.push({ from: current, to: "change" });
-			current = "change";
-			if (shouldThrottle && debounce) {
-				wiring.push({ from: current, to: debounceType });
-				current = debounceType;
+	// Get recipe
+	server.tool(
+		"get-recipe",
+		"Returns a recipe document by ID, including its matchers, trigger, value mapping, node templates and notes. Args: id (e.g.'strobe-on-beat')",
+		{ id: z.string().describe("Recipe ID") },
+		async ({ id }) => {
+			const found = await config.recipes.get(id);
+			if (!found) {
+				return textResult({ ok: false, error: `Unknown recipe: ${id}` });
 			}
-			wiring.push({ from: current, to: outputType });
-
-			const response: any = {
-				intent,
-				trigger: { type: triggerType, timing },
-				action:
-					protocol === "osc"
-						? { type: "osc", host, port, address: oscAddress }
-						: { type: "midi" },
-				missingNodes: missing,
-				steps,
-				wiring,
-				dataNotes: triggerType.startsWith("tl-keypoint")
-					? {
-							keypointStreamHas: [
-								"currentKeypointProgress",
-								"currentKeypointGroupProgress",
-								"currentKeypointGroupStep",
-								"currentKeypointGroupTotalSteps",
-								"currentPositionMs",
-								"durationMs",
-								"bpm",
-							],
-							keypointEventHas: [
-								"event (enter/exit)",
-								"reason (optional)",
-								"currentKeypointProgress",
-								"currentKeypointGroupProgress",
-							],
-						}
-					: triggerType === "tl-beat"
-						? {
-								beatPayloadHas: [
-									"deckId",
-									"beatInMeasure",
-									"beat",
-									"bpm",
-									"pitch",
-									"currentPositionMs",
-									"ts",
-								],
-							}
-						: triggerType === "tl-current-track"
-							? {
-									currentTrackChangePayload: [
-										"deckId",
-										"trackId",
-										"title",
-										"artist",
-										"isPlaying",
-										"isOnAir",
-										"bpm",
-										"durationMs",
-									],
-								}
-							: null,
-			};
+			return textResult(found);
+		},
+	);
 
-			if (customOnly) {
-				try {
-					response.customNodes = await cat.list({ customOnly: true });
-				} catch {
-					// ignore
+	// Validate recipe
+	server.tool(
+		"validate-recipe",
+		`Validates a recipe document without storing it: schema, matcher patterns, duplicate template keys and whether the node types it uses are installed. Store valid recipes in the RECIPES_KV namespace under '${RECIPE_KV_PREFIX}<id>'. Args: recipeJson (e.g.'{id: 'strobe-on-beat', title: 'Strobe on beat', match: {all: ['strobe'], any: ['beat']}, nodes: []}') sample (e.g.'strobe the lights on every beat')`,
+		{
+			recipeJson: z.string().describe("Recipe document in JSON"),
+			sample: z
+				.string()
+				.optional()
+				.describe("Optional intent text to test the recipe's matchers against"),
+		},
+		async ({ recipeJson, sample }) => {
+			try {
+				const result = validateRecipe(JSON.parse(recipeJson));
+				if (!result.ok) {
+					return textResult(result);
+				}
+				const { recipe } = result;
+				const { nodesByType } = await config.nodeCatalog.getCatalog();
+				const types = [
+					...(recipe.trigger ? [recipe.trigger.nodeType] : []),
+					...recipe.nodes.map((n) => n.type),
+				];
+				const existing = await config.recipes.get(recipe.id);
+				const response: any = {
+					ok: true,
+					id: recipe.id,
+					missingNodes: [...new Set(types)].filter((t) => !nodesByType[t]),
+					replaces: existing ? { source: existing.source, key: existing.key } : null,
+					kvKey: `${RECIPE_KV_PREFIX}${recipe.id}`,
+				};
+				if (sample !== undefined) {
+					const clauses = parseIntent(sample, {
+						keypointTypes: buildKeypointTaxonomy(nodesByType),
+					}).clauses;
+					response.sampleMatches = clauses.map((c) => ({
+						text: c.text,
+						matches: !!matchRecipe(recipe, c.text),
+					}));
 				}
+				return textResult(response);
+			} catch (error: any) {
+				return toolErrorResult(error);
 			}
-
-			return {
-				content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-			};
 		},
 	);
 }
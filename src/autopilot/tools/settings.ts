@@ -4,7 +4,7 @@
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
-import { callNodeRed } from "../utils.js";
+import { callNodeRed, textResult } from "../utils.js";
 
 export default function registerSettingsTools(server: McpServer, config: AutopilotMcpConfig) {
 	// Retrieve runtime settings
@@ -14,9 +14,7 @@ export default function registerSettingsTools(server: McpServer, config: Autopil
 		{},
 		async () => {
 			const settings = await callNodeRed("get", "/settings", null, config);
-			return {
-				content: [{ type: "text", text: JSON.stringify(settings, null, 2) }],
-			};
+			return textResult(settings);
 		},
 	);
 
@@ -27,9 +25,7 @@ export default function registerSettingsTools(server: McpServer, config: Autopil
 		{},
 		async () => {
 			const diagnostics = await callNodeRed("get", "/diagnostics", null, config);
-			return {
-				content: [{ type: "text", text: JSON.stringify(diagnostics, null, 2) }],
-			};
+			return textResult(diagnostics);
 		},
 	);
 }
@@ -0,0 +1,92 @@
+/**
+ * MCP tools for inspecting and restoring pre-write flow snapshots
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { diffFlows, updateLiveFlows } from "../flows/index.js";
+import type { AutopilotMcpConfig } from "../registerAutopilotTools.js";
+import { fetchFlows, textResult, toolErrorResult } from "../utils.js";
+import { deploymentTypeArg, revArg } from "./args.js";
+
+export default function registerSnapshotTools(server: McpServer, config: AutopilotMcpConfig) {
+	const unavailable = () =>
+		textResult({
+			ok: false,
+			error: "Flow snapshots are unavailable: the NODE_RED_STATE Durable Object is not bound.",
+		});
+
+	// List snapshots
+	server.tool(
+		"list-flow-snapshots",
+		"Lists flow snapshots saved automatically before each mutating flow tool call (newest first), including which tool made the change and who called it.",
+		{
+			limit: z
+				.number()
+				.int()
+				.min(1)
+				.max(200)
+				.optional()
+				.describe("Max snapshots (default 20)"),
+		},
+		async ({ limit }) => {
+			const store = config.flowSnapshots;
+			if (!store) return unavailable();
+			return textResult({ ok: true, snapshots: await store.list({ limit }) });
+		},
+	);
+
+	// Diff snapshot vs live flows
+	server.tool(
+		"diff-flow-snapshot",
+		"Compares a saved flow snapshot against the live Node-RED flows. The diff shows what restoring the snapshot would change. Args: id (e.g. 12)",
+		{ id: z.number().int().describe("Snapshot ID (see list-flow-snapshots)") },
+		async ({ id }) => {
+			const store = config.flowSnapshots;
+			if (!store) return unavailable();
+			const snapshot = await store.get(id);
+			if (!snapshot) return textResult({ ok: false, error: `Unknown snapshot: ${id}` });
+			const live = await fetchFlows(config);
+			return textResult({
+				ok: true,
+				snapshot: snapshot.meta,
+				rev: live.rev,
+				diff: diffFlows(live.flows, snapshot.flows),
+			});
+		},
+	);
+
+	// Restore snapshot
+	server.tool(
+		"restore-flow-snapshot",
+		"Restores a saved flow snapshot by deploying it as the full flow configuration. The current live flows are snapshotted first, so a restore can itself be undone. Args: id (e.g. 12)",
+		{
+			id: z.number().int().describe("Snapshot ID (see list-flow-snapshots)"),
+			rev: revArg,
+			deploymentType: deploymentTypeArg,
+		},
+		async ({ id, rev, deploymentType }) => {
+			const store = config.flowSnapshots;
+			if (!store) return unavailable();
+			try {
+				const snapshot = await store.get(id);
+				if (!snapshot) return textResult({ ok: false, error: `Unknown snapshot: ${id}` });
+				const result = await updateLiveFlows(
+					config,
+					"restore-flow-snapshot",
+					() => ({ flows: snapshot.flows }),
+					{ rev, deploymentType },
+				);
+				return textResult({
+					ok: true,
+					restored: snapshot.meta,
+					rev: result.rev,
+					previousStateSnapshot: result.snapshot,
+					deployment: result.deployment,
+				});
+			} catch (error: any) {
+				return toolErrorResult(error);
+			}
+		},
+	);
+}
@@ -2,8 +2,49 @@ export type NodeRedConnectionConfig = {
 	nodeRedUrl: string;
 	nodeRedToken?: string;
 	apiPrefix?: string;
+	nodeRedAPIVersion?: string;
 };
 
+/**
+ * Non-2xx response from the Node-RED Admin API. `code` is Node-RED's error code when the
+ * body is JSON (e.g. "version_mismatch" for a stale `rev`).
+ */
+export class NodeRedApiError extends Error {
+	status: number;
+	code: string | null;
+	body: string;
+
+	constructor(status: number, statusText: string, body: string) {
+		super(`Node-RED API error: ${status} ${statusText}${body ? ` - ${body}` : ""}`);
+		this.name = "NodeRedApiError";
+		this.status = status;
+		this.body = body;
+		let code: string | null = null;
+		try {
+			code = JSON.parse(body)?.code ?? null;
+		} catch {
+			// non-JSON body
+		}
+		this.code = code;
+	}
+}
+
+/**
+ * The flows changed since the caller read them (checked before endpoints without `rev`).
+ */
+export class FlowsRevConflictError extends Error {
+	code = "version_mismatch";
+	expectedRev: string;
+	currentRev: string | null;
+
+	constructor(expectedRev: string, currentRev: string | null) {
+		super(`Flows changed since rev ${expectedRev} was read (current rev: ${currentRev})`);
+		this.name = "FlowsRevConflictError";
+		this.expectedRev = expectedRev;
+		this.currentRev = currentRev;
+	}
+}
+
 function joinUrl(base: string, path: string) {
 	const b = String(base || "").replace(/\/+$/, "");
 	const p = String(path || "");
@@ -20,15 +61,18 @@ export async function callNodeRed(
 	path: string,
 	data: unknown,
 	config: NodeRedConnectionConfig,
+	{ headers: extraHeaders }: { headers?: Record<string, string> } = {},
 ) {
 	const apiPath = config.apiPrefix ? `${config.apiPrefix}${path}` : path;
 	const url = joinUrl(config.nodeRedUrl, apiPath);
 
 	const headers = new Headers();
 	if (config.nodeRedToken) headers.set("Authorization", `Bearer ${config.nodeRedToken}`);
+	if (config.nodeRedAPIVersion) headers.set("Node-RED-API-Version", config.nodeRedAPIVersion);
 	if (data != null && ["post", "put", "patch"].includes(method.toLowerCase())) {
 		headers.set("Content-Type", "application/json");
 	}
+	for (const [name, value] of Object.entries(extraHeaders ?? {})) headers.set(name, value);
 
 	const res = await fetch(url, {
 		method: method.toUpperCase(),
@@ -38,9 +82,7 @@ export async function callNodeRed(
 
 	if (!res.ok) {
 		const body = await res.text().catch(() => "");
-		throw new Error(
-			`Node-RED API error: ${res.status} ${res.statusText}${body ? ` - ${body}` : ""}`,
-		);
+		throw new NodeRedApiError(res.status, res.statusText, body);
 	}
 
 	const contentType = res.headers.get("content-type") || "";
@@ -50,6 +92,93 @@ export async function callNodeRed(
 	return await res.text();
 }
 
+/**
+ * Read `/flows` as `{ rev, flows }` regardless of API version (v1 returns a bare array).
+ */
+export async function fetchFlows(config: NodeRedConnectionConfig) {
+	const res = (await callNodeRed("get", "/flows", null, config)) as any;
+	if (Array.isArray(res)) return { rev: null as string | null, flows: res as any[] };
+	return {
+		rev: typeof res?.rev === "string" ? res.rev : null,
+		flows: Array.isArray(res?.flows) ? (res.flows as any[]) : [],
+	};
+}
+
+/**
+ * Deploy a full flow array. The v2 API takes `{ flows, rev? }` (v1 a bare array); with a
+ * `rev`, Node-RED rejects the deploy with 409 `version_mismatch` if the flows changed since
+ * that rev was read. `deploymentType` maps to the `Node-RED-Deployment-Type` header (Node-RED
+ * itself defaults to "full").
+ */
+export async function deployFlows(
+	config: NodeRedConnectionConfig,
+	flows: any[],
+	{ rev, deploymentType }: { rev?: string | null; deploymentType?: string } = {},
+) {
+	const body = config.nodeRedAPIVersion === "v2" ? { flows, ...(rev ? { rev } : {}) } : flows;
+	const headers: Record<string, string> = deploymentType
+		? { "Node-RED-Deployment-Type": deploymentType }
+		: {};
+	const res = (await callNodeRed("post", "/flows", body, config, { headers })) as any;
+	return { rev: typeof res?.rev === "string" ? res.rev : null };
+}
+
+/**
+ * Read `/flows` before a write and fail fast when the caller's `rev` is stale. Needed for
+ * endpoints that don't accept `rev` themselves (`/flow/:id`, `/flows/state`).
+ */
+export async function fetchFlowsAtRev(config: NodeRedConnectionConfig, rev?: string | null) {
+	const current = await fetchFlows(config);
+	if (rev && current.rev && current.rev !== rev) {
+		throw new FlowsRevConflictError(rev, current.rev);
+	}
+	return current;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function escapeRegExp(text: string) {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Tool result carrying a JSON value as pretty-printed text.
+ */
+export function textResult(value: unknown) {
+	return {
+		content: [{ type: "text" as const, text: JSON.stringify(value, null, 2) }],
+	};
+}
+
+/**
+ * Tool result for a failed Node-RED call. Revision conflicts are returned as structured JSON
+ * so clients can re-read and retry; everything else keeps the plain `Error: ...` text.
+ */
+export function toolErrorResult(error: any) {
+	const conflict =
+		error instanceof FlowsRevConflictError ||
+		(error instanceof NodeRedApiError &&
+			(error.status === 409 || error.code === "version_mismatch"));
+	if (conflict) {
+		return textResult({
+			ok: false,
+			error: {
+				code: "version_mismatch",
+				message:
+					"The flows were changed by someone else since they were read. Re-read them (get-flows) and retry with the new rev.",
+				expectedRev: error instanceof FlowsRevConflictError ? error.expectedRev : null,
+				currentRev: error instanceof FlowsRevConflictError ? error.currentRev : null,
+				detail: error.message,
+			},
+		});
+	}
+	return {
+		content: [{ type: "text" as const, text: `Error: ${error?.message ?? String(error)}` }],
+	};
+}
+
 /**
  * Format output of Node-RED flows.
  */
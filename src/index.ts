@@ -4,6 +4,8 @@ import { McpAgent } from "agents/mcp";
 import app from "./app";
 import { registerAutopilotTools } from "./autopilot/registerAutopilotTools";
 
+export { NodeRedState } from "./node-red-state";
+
 export class MyMCP extends McpAgent {
 	server = new McpServer({
 		name: "Time-Line Autopilot MCP",
@@ -13,7 +15,18 @@ export class MyMCP extends McpAgent {
 	async init() {
 		// `agents/mcp` attaches Worker bindings on `this.env` at runtime.
 		// We keep this loose-typed to avoid coupling to generated Wrangler types.
-		registerAutopilotTools(this.server, (this as unknown as { env?: unknown }).env as any);
+		const env = (this as unknown as { env?: unknown }).env as any;
+		registerAutopilotTools(this.server, env, {
+			// Flow snapshots and node catalogs live in the NodeRedState Durable Object shared by
+			// all sessions.
+			getSharedState: env?.NODE_RED_STATE
+				? (nodeRedUrl) => env.NODE_RED_STATE.get(env.NODE_RED_STATE.idFromName(nodeRedUrl))
+				: undefined,
+			getActor: () => {
+				const email = this.props?.userEmail;
+				return typeof email === "string" ? email : null;
+			},
+		});
 	}
 }
 
@@ -0,0 +1,47 @@
+import { DurableObject } from "cloudflare:workers";
+import { SqlCatalogStore, type StoredCatalog } from "./autopilot/catalog/index";
+import {
+	createFlowSnapshotStore,
+	type FlowSnapshotEntry,
+	type SqlTag,
+} from "./autopilot/flows/index";
+
+/**
+ * Storage shared by every MCP session working against one Node-RED instance.
+ *
+ * MyMCP is a Durable Object per session, so anything that must outlive a session (flow
+ * snapshots, and the parsed node catalog when CATALOG_KV isn't bound) lives here instead.
+ * Sessions address it with `idFromName(nodeRedUrl)` and call these methods over RPC.
+ */
+export class NodeRedState extends DurableObject<Env> {
+	// Tagged-template SQL over this object's SQLite storage (the same shape as `Agent.sql`).
+	private sql: SqlTag = (strings, ...values) => {
+		const query = strings.reduce((q, s, i) => q + s + (i < values.length ? "?" : ""), "");
+		return this.ctx.storage.sql
+			.exec(query, ...(values as SqlStorageValue[]))
+			.toArray() as any[];
+	};
+
+	private snapshots = createFlowSnapshotStore(this.sql);
+	private catalogs = new SqlCatalogStore(this.sql);
+
+	saveSnapshot(entry: FlowSnapshotEntry, options?: { limit?: number }) {
+		return this.snapshots.save(entry, options);
+	}
+
+	listSnapshots(options?: { limit?: number }) {
+		return this.snapshots.list(options);
+	}
+
+	getSnapshot(id: number) {
+		return this.snapshots.get(id);
+	}
+
+	loadCatalog(nodeRedUrl: string) {
+		return this.catalogs.load(nodeRedUrl);
+	}
+
+	saveCatalog(entry: StoredCatalog) {
+		return this.catalogs.save(entry);
+	}
+}
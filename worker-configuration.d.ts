@@ -4,12 +4,13 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
-		durableNamespaces: "MyMCP";
+		durableNamespaces: "MyMCP" | "NodeRedState";
 	}
 	interface Env {
 		OAUTH_KV: KVNamespace;
 		ASSETS: Fetcher;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
+		NODE_RED_STATE: DurableObjectNamespace<import("./src/index").NodeRedState>;
 	}
 }
 interface Env extends Cloudflare.Env {}